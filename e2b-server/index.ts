@@ -30,15 +30,33 @@ let queryAbortController: AbortController | null = null;
 // Stored query configuration
 let queryConfig: QueryConfig = {};
 
+// SDK session of the current query, used to keep the conversation when the query restarts
+let sdkSessionId: string | null = null;
+
+// Whether Claude is answering a message (restarts wait until it's done)
+let turnInProgress = false;
+
+// Budget, MCP or agent options changed mid-turn - restart the query once the turn ends
+let restartPending = false;
+
 // Server instance (mutable for restart)
 let server: ReturnType<typeof Bun.serve> | null = null;
 
+type PermissionDecision = { allow: boolean; reason?: string };
+
+// Tool calls waiting for the user's approval, keyed by request ID
+const pendingPermissions = new Map<string, (decision: PermissionDecision) => void>();
+
+const DEFAULT_APPROVAL_TIMEOUT_MS = 5 * 60 * 1000;
+
 // Create an async generator that yields messages from the queue
-async function* generateMessages() {
-  while (true) {
+// (stops when its query is aborted, leaving queued messages for the next one)
+async function* generateMessages(signal: AbortSignal) {
+  while (!signal.aborted) {
     // Wait for messages in the queue
-    while (messageQueue.length > 0) {
+    while (messageQueue.length > 0 && !signal.aborted) {
       const message = messageQueue.shift();
+      turnInProgress = true;
       yield message!;
     }
 
@@ -79,11 +97,114 @@ async function branchProtectionHook(
   return { continue: true };
 }
 
-// Process messages from the SDK and send to WebSocket client
-async function processMessages() {
+// Check if a command pushes commits or changes pull requests
+function isPushOperation(command: string): boolean {
+  const patterns = [
+    /\bgit\s+push\b/, // any git push
+    /\bgh\s+pr\s+(create|merge|edit|ready|close|reopen)\b/, // PR changes via gh CLI
+  ];
+  return patterns.some((p) => p.test(command));
+}
+
+// PreToolUse hook to block pushes and PRs in read-only sessions
+async function pushProtectionHook(
+  input: PreToolUseHookInput,
+  _toolUseId: string | undefined,
+  _options: { signal: AbortSignal }
+): Promise<HookJSONOutput> {
+  const toolInput = input.tool_input as { command?: string };
+  const command = toolInput.command || "";
+
+  if (queryConfig.readOnly && isPushOperation(command)) {
+    return {
+      continue: false,
+      reason: "This session is read-only. Pushing and pull requests are disabled.",
+    };
+  }
+
+  return { continue: true };
+}
+
+// Check if a tool call matches a rule of the approval policy
+function requiresApproval(toolName: string, toolInput: { command?: string }): boolean {
+  const rules = queryConfig.approvalPolicy?.rules || [];
+  return rules.some((rule) => {
+    if (rule.tool !== "*" && rule.tool !== toolName) return false;
+    if (!rule.commandPattern) return true;
+    try {
+      return new RegExp(rule.commandPattern).test(toolInput.command || "");
+    } catch {
+      return false; // Ignore invalid patterns
+    }
+  });
+}
+
+// PreToolUse hook that asks the WhatsApp user to approve matching tool calls
+async function approvalHook(
+  input: PreToolUseHookInput,
+  toolUseId: string | undefined,
+  options: { signal: AbortSignal }
+): Promise<HookJSONOutput> {
+  const toolInput = (input.tool_input || {}) as Record<string, unknown>;
+  if (!requiresApproval(input.tool_name, toolInput)) {
+    return { continue: true };
+  }
+
+  const connection = activeConnection;
+  const policy = queryConfig.approvalPolicy!;
+  const timeoutMs = policy.timeoutMs ?? DEFAULT_APPROVAL_TIMEOUT_MS;
+  const requestId = toolUseId || input.tool_use_id || crypto.randomUUID();
+
+  const decision = !connection
+    ? { allow: false, reason: "No client connected to approve this tool call" }
+    : await new Promise<PermissionDecision>((resolve) => {
+        const finish = (result: PermissionDecision) => {
+          clearTimeout(timer);
+          options.signal.removeEventListener("abort", onAbort);
+          pendingPermissions.delete(requestId);
+          resolve(result);
+        };
+        const onAbort = () => finish({ allow: false, reason: "Query was interrupted" });
+        const timer = setTimeout(
+          () =>
+            finish({
+              allow: policy.timeoutDecision === "allow",
+              reason: "No response from the user in time",
+            }),
+          timeoutMs
+        );
+
+        pendingPermissions.set(requestId, finish);
+        options.signal.addEventListener("abort", onAbort);
+
+        const output: WSOutputMessage = {
+          type: "permission_request",
+          requestId,
+          toolName: input.tool_name,
+          input: toolInput,
+          timeoutMs,
+        };
+        connection.send(JSON.stringify(output));
+      });
+
+  return {
+    hookSpecificOutput: {
+      hookEventName: "PreToolUse",
+      permissionDecision: decision.allow ? "allow" : "deny",
+      permissionDecisionReason:
+        decision.reason || (decision.allow ? "Approved by the user" : "Denied by the user"),
+    },
+  };
+}
+
+// Process messages from the SDK and send to WebSocket client.
+// `resume` continues an earlier SDK session (same conversation, new options)
+async function processMessages(resume?: string) {
   // Create new AbortController for this session
   queryAbortController = new AbortController();
   const currentController = queryAbortController;
+  // total_cost_usd keeps growing for as long as this query runs
+  let queryCostUsd = 0;
 
   try {
     const options: Options = {
@@ -105,11 +226,15 @@ async function processMessages() {
         PreToolUse: [
           {
             matcher: "Bash",
-            hooks: [branchProtectionHook],
+            hooks: [branchProtectionHook, pushProtectionHook],
+          },
+          {
+            hooks: [approvalHook],
           },
         ],
       },
       ...queryConfig,
+      ...(resume && { resume }),
       // Spread sandbox env vars and add our tokens on top
       env: {
         ...process.env,
@@ -124,8 +249,9 @@ async function processMessages() {
     };
 
 
+    turnInProgress = false;
     activeStream = query({
-      prompt: generateMessages(),
+      prompt: generateMessages(currentController.signal),
       options,
     });
 
@@ -133,13 +259,27 @@ async function processMessages() {
       if (currentController.signal.aborted) {
         break;
       }
+      sdkSessionId = message.session_id || sdkSessionId;
+      let turnCostUsd: number | undefined;
+      if (message.type === "result") {
+        turnCostUsd = Math.max(0, message.total_cost_usd - queryCostUsd);
+        queryCostUsd = message.total_cost_usd;
+      }
       if (activeConnection) {
         const output: WSOutputMessage = {
           type: "sdk_message",
           data: message,
+          turnCostUsd,
         };
         activeConnection.send(JSON.stringify(output));
       }
+      if (message.type === "result") {
+        turnInProgress = false;
+        if (restartPending) {
+          restartPending = false;
+          restartQuery();
+        }
+      }
     }
   } catch (error) {
     if (error instanceof Error && error.name === "AbortError") {
@@ -155,6 +295,44 @@ async function processMessages() {
   }
 }
 
+// Start a new query on the same conversation so options fixed at query start
+// (max turns, max budget, MCP servers, agents, project settings) take effect
+function restartQuery() {
+  if (queryAbortController) {
+    queryAbortController.abort();
+    queryAbortController = null;
+  }
+  activeStream = null;
+  processMessages(sdkSessionId || undefined);
+}
+
+// Apply a config update to the running query without losing the conversation
+function applyConfigChange(previous: QueryConfig) {
+  if (!activeStream || !activeConnection) return;
+
+  if (queryConfig.model !== previous.model) {
+    activeStream.setModel(queryConfig.model).catch((error) => console.error("setModel failed:", error));
+  }
+  if (queryConfig.maxThinkingTokens !== previous.maxThinkingTokens) {
+    activeStream
+      .setMaxThinkingTokens(queryConfig.maxThinkingTokens ?? null)
+      .catch((error) => console.error("setMaxThinkingTokens failed:", error));
+  }
+  if (
+    queryConfig.maxTurns !== previous.maxTurns ||
+    queryConfig.maxBudgetUsd !== previous.maxBudgetUsd ||
+    JSON.stringify(queryConfig.mcpServers) !== JSON.stringify(previous.mcpServers) ||
+    JSON.stringify(queryConfig.agents) !== JSON.stringify(previous.agents) ||
+    queryConfig.settingsRevision !== previous.settingsRevision
+  ) {
+    if (turnInProgress) {
+      restartPending = true;
+    } else {
+      restartQuery();
+    }
+  }
+}
+
 // Create WebSocket server
 server = Bun.serve({
   hostname: "0.0.0.0",  // Bind to all interfaces (required for E2B)
@@ -167,7 +345,9 @@ server = Bun.serve({
       return req
         .json()
         .then((config) => {
+          const previous = queryConfig;
           queryConfig = config as QueryConfig;
+          applyConfigChange(previous);
           return Response.json({ success: true });
         })
         .catch(() => {
@@ -218,6 +398,7 @@ server = Bun.serve({
       activeConnection = ws;
       activeStream = null;
       messageQueue.length = 0;
+      restartPending = false;
 
       processMessages();
 
@@ -229,6 +410,9 @@ server = Bun.serve({
       await handleMessage(ws, message, {
         messageQueue,
         getActiveStream: () => activeStream,
+        resolvePermission: (requestId, decision) => {
+          pendingPermissions.get(requestId)?.(decision);
+        },
       });
     },
 
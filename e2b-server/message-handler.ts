@@ -6,6 +6,7 @@ import { type WSInputMessage, type WSOutputMessage } from "./message-types";
 export type MessageHandlerContext = {
   messageQueue: SDKUserMessage[];
   getActiveStream: () => ReturnType<typeof query> | null;
+  resolvePermission: (requestId: string, decision: { allow: boolean; reason?: string }) => void;
 };
 
 export async function handleMessage(
@@ -15,12 +16,14 @@ export async function handleMessage(
 ) {
   try {
     const input = JSON.parse(message.toString()) as WSInputMessage;
-    const { messageQueue, getActiveStream } = context;
+    const { messageQueue, getActiveStream, resolvePermission } = context;
 
     if (input.type === "user_message") {
       messageQueue.push(input.data);
     } else if (input.type === "interrupt") {
       getActiveStream()?.interrupt();
+    } else if (input.type === "permission_response") {
+      resolvePermission(input.requestId, { allow: input.allow, reason: input.reason });
     }
   } catch (error) {
     ws.send(
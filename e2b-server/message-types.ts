@@ -12,16 +12,45 @@ export type WSInputMessage =
       type: "user_message";
       data: SDKUserMessage;
     }
-  | { type: "interrupt" };
+  | { type: "interrupt" }
+  | { type: "permission_response"; requestId: string; allow: boolean; reason?: string };
 
 export type WSOutputMessage =
   | { type: "connected" }
-  | { type: "sdk_message"; data: SDKMessage }
+  | {
+      type: "sdk_message";
+      data: SDKMessage;
+      /** On results: this turn's cost (the SDK's total_cost_usd covers the whole query) */
+      turnCostUsd?: number;
+    }
   | { type: "error"; error: string }
-  | { type: "info"; data: string };
+  | { type: "info"; data: string }
+  | {
+      type: "permission_request";
+      requestId: string;
+      toolName: string;
+      input: Record<string, unknown>;
+      timeoutMs: number;
+    };
 
 export type McpRemoteServerConfig = McpHttpServerConfig | McpSSEServerConfig;
 
+/** A tool call that needs the user's approval before it runs */
+export type ApprovalRule = {
+  /** Tool name (e.g. "Bash", "Write"), or "*" for any tool */
+  tool: string;
+  /** Regex matched against the Bash command. Omit to match every call of `tool` */
+  commandPattern?: string;
+};
+
+export type ApprovalPolicy = {
+  rules: ApprovalRule[];
+  /** How long to wait for the user. Defaults to 5 minutes */
+  timeoutMs?: number;
+  /** Decision applied when the user doesn't answer in time. Defaults to "deny" */
+  timeoutDecision?: "allow" | "deny";
+};
+
 // Configuration type for the query options
 export type QueryConfig = {
   agents?: Record<string, AgentDefinition>;
@@ -41,4 +70,16 @@ export type QueryConfig = {
   githubToken?: string;
   /** Session branch name - used to block git branch operations */
   sessionBranch?: string;
+  /** Tool calls that must be approved from WhatsApp before running */
+  approvalPolicy?: ApprovalPolicy;
+  /** Read-only session - blocks git push and PR operations */
+  readOnly?: boolean;
+  /** Max turns Claude may take before stopping */
+  maxTurns?: number;
+  /** Max spend in USD before the query stops */
+  maxBudgetUsd?: number;
+  /** Thinking budget (effort) */
+  maxThinkingTokens?: number;
+  /** Change to make the SDK read the workspace's .claude/ settings (agents, CLAUDE.md) again */
+  settingsRevision?: number;
 };
@@ -0,0 +1,191 @@
+import { sendWhatsAppMessage } from "./kapso.js";
+import { killAllClients } from "./claude.js";
+import { createStore } from "./store.js";
+import type { GitHubRepo } from "./github.js";
+
+export type Role = "admin" | "developer" | "read-only";
+
+const ROLES: Role[] = ["admin", "developer", "read-only"];
+
+type UserRow = {
+  phone: string;
+  role: Role;
+  /** Comma-separated repo patterns, e.g. "acme/*,other/api". "*" means all repos */
+  repos: string;
+  granted_by: string;
+  updated_at: string;
+};
+
+// Granted users, loaded on boot and kept in sync with the store
+const users = new Map<string, UserRow>();
+
+const userStore = createStore<UserRow>("whatsapp_users", "phone");
+
+/** Normalize a phone number to digits only (WhatsApp IDs have no "+") */
+function normalizePhone(phone: string): string {
+  return phone.replace(/\D/g, "");
+}
+
+/** Admins from ADMIN_NUMBERS always have full access */
+function getBootstrapAdmins(): string[] {
+  return (process.env.ADMIN_NUMBERS || "")
+    .split(",")
+    .map(normalizePhone)
+    .filter(Boolean);
+}
+
+/** Access control is enabled once at least one admin is configured */
+export function isAccessControlEnabled(): boolean {
+  return getBootstrapAdmins().length > 0;
+}
+
+export async function restoreUsers(): Promise<number> {
+  const rows = await userStore.all();
+  for (const row of rows) {
+    users.set(row.phone, row);
+  }
+  return rows.length;
+}
+
+/** Get a contact's role, or null if they are not allowed to use the bot */
+export function getRole(contactId: string): Role | null {
+  // Without configured admins everyone is a developer (open mode)
+  if (!isAccessControlEnabled()) return "developer";
+
+  const phone = normalizePhone(contactId);
+  if (getBootstrapAdmins().includes(phone)) return "admin";
+  return users.get(phone)?.role ?? null;
+}
+
+export function isAuthorized(contactId: string): boolean {
+  return getRole(contactId) !== null;
+}
+
+/** Whether the contact may push commits and open pull requests */
+export function canPush(contactId: string): boolean {
+  const role = getRole(contactId);
+  return role === "admin" || role === "developer";
+}
+
+function matchesPattern(fullName: string, pattern: string): boolean {
+  const regex = new RegExp(
+    "^" + pattern.split("*").map((part) => part.replace(/[.+?^${}()|[\]\\]/g, "\\$&")).join(".*") + "$",
+    "i"
+  );
+  return regex.test(fullName);
+}
+
+export function canAccessRepo(contactId: string, fullName: string): boolean {
+  const role = getRole(contactId);
+  if (!role) return false;
+  if (role === "admin" || !isAccessControlEnabled()) return true;
+
+  const patterns = (users.get(normalizePhone(contactId))?.repos || "*").split(",");
+  return patterns.some((pattern) => matchesPattern(fullName, pattern.trim()));
+}
+
+/** Only keep the repos a contact is allowed to see */
+export function filterReposForContact(contactId: string, repos: GitHubRepo[]): GitHubRepo[] {
+  return repos.filter((repo) => canAccessRepo(contactId, repo.fullName));
+}
+
+// Admin commands: /grant, /revoke, /users
+
+const USAGE = `*Access commands*
+/grant <phone> <admin|developer|read-only> [repo patterns]
+/revoke <phone>
+/users
+
+Repo patterns are comma-separated, e.g. \`acme/*,other/api\` (default: all)`;
+
+async function grant(from: string, args: string[]): Promise<string> {
+  const [rawPhone, rawRole, ...patterns] = args;
+  const phone = normalizePhone(rawPhone || "");
+  const role = rawRole?.toLowerCase() as Role;
+
+  if (!phone || !ROLES.includes(role)) {
+    return USAGE;
+  }
+
+  const hadAccess = isAuthorized(phone);
+  const couldPush = canPush(phone);
+  const previousRepos = users.get(phone)?.repos;
+
+  const row: UserRow = {
+    phone,
+    role,
+    repos: patterns.join(",").replace(/\s+/g, "") || "*",
+    granted_by: normalizePhone(from),
+    updated_at: new Date().toISOString(),
+  };
+  await userStore.set(phone, row);
+  users.set(phone, row);
+
+  // Running sessions keep the permissions they started with (push token,
+  // read-only flag, repo), so end them the way /revoke does
+  if (hadAccess && (canPush(phone) !== couldPush || (previousRepos ?? "*") !== row.repos)) {
+    await killAllClients(phone);
+    return `✅ ${phone} is now ${role}\n📁 ${row.repos}\n\nTheir sessions were ended so the change applies.`;
+  }
+  return `✅ ${phone} is now ${role}\n📁 ${row.repos}`;
+}
+
+async function revoke(args: string[]): Promise<string> {
+  const phone = normalizePhone(args[0] || "");
+  if (!phone) return USAGE;
+
+  if (getBootstrapAdmins().includes(phone)) {
+    return `${phone} is configured in ADMIN_NUMBERS and can't be revoked here.`;
+  }
+  if (!users.has(phone)) {
+    return `${phone} has no access.`;
+  }
+
+  await userStore.delete(phone);
+  users.delete(phone);
+  await killAllClients(phone);
+  return `✅ Revoked access for ${phone}`;
+}
+
+function listUsers(): string {
+  const lines = getBootstrapAdmins().map((phone) => `👑 ${phone} · admin (ADMIN_NUMBERS)`);
+  for (const user of users.values()) {
+    const icon = user.role === "admin" ? "👑" : user.role === "developer" ? "🧑‍💻" : "👀";
+    lines.push(`${icon} ${user.phone} · ${user.role} · ${user.repos}`);
+  }
+  return `*Users*\n${lines.join("\n")}`;
+}
+
+/**
+ * Handle /grant, /revoke and /users. Returns false if `text` isn't an access command.
+ */
+export async function handleAccessCommand(from: string, text: string): Promise<boolean> {
+  const [command, ...args] = text.trim().split(/\s+/);
+  const name = command.toLowerCase();
+
+  if (name !== "/grant" && name !== "/revoke" && name !== "/users") {
+    return false;
+  }
+
+  if (getRole(from) !== "admin" || !isAccessControlEnabled()) {
+    await sendWhatsAppMessage(
+      from,
+      isAccessControlEnabled()
+        ? "Only admins can manage users."
+        : "Access control is disabled. Set ADMIN_NUMBERS to enable it."
+    );
+    return true;
+  }
+
+  try {
+    const reply =
+      name === "/grant" ? await grant(from, args) : name === "/revoke" ? await revoke(args) : listUsers();
+    await sendWhatsAppMessage(from, reply);
+  } catch (error) {
+    console.error("Error managing users:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    await sendWhatsAppMessage(from, `Failed to update users: ${errorMessage.slice(0, 200)}`);
+  }
+  return true;
+}
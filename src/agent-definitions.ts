@@ -0,0 +1,135 @@
+import { readFileSync } from "fs";
+import type { AgentDefinition, ClaudeAgentClient } from "./lib/claude-agent/index.js";
+
+// Claude Code's conventional location for project subagents (relative to the workspace)
+const REPO_AGENTS_DIR = ".claude/agents";
+
+const MAX_REPO_AGENTS = 20;
+
+const AGENT_MODELS = ["sonnet", "opus", "haiku", "inherit"];
+
+/** Agents that failed validation, with the reason */
+export type AgentError = { source: string; error: string };
+
+/**
+ * Check a raw definition (from AGENTS_FILE or a repo's agent file). Returns
+ * the definition, or why it can't be used.
+ */
+export function validateAgent(name: string, raw: Record<string, unknown>): AgentDefinition | string {
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(name)) {
+    return `invalid name "${name}" (use lowercase letters, digits and dashes)`;
+  }
+  if (typeof raw.description !== "string" || !raw.description.trim()) {
+    return "missing description";
+  }
+  if (typeof raw.prompt !== "string" || !raw.prompt.trim()) {
+    return "missing prompt";
+  }
+  if (raw.model !== undefined && !AGENT_MODELS.includes(raw.model as string)) {
+    return `model must be one of ${AGENT_MODELS.join(", ")}`;
+  }
+  if (
+    raw.tools !== undefined &&
+    (!Array.isArray(raw.tools) || !raw.tools.every((tool) => typeof tool === "string"))
+  ) {
+    return "tools must be a list of tool names";
+  }
+
+  return {
+    description: raw.description.trim(),
+    prompt: raw.prompt.trim(),
+    tools: raw.tools as string[] | undefined,
+    model: raw.model as AgentDefinition["model"],
+  };
+}
+
+let serverAgents: { agents: Record<string, AgentDefinition>; errors: AgentError[] } | undefined;
+
+/**
+ * Server-wide agents from AGENTS_FILE (JSON keyed by agent name). Invalid
+ * definitions are skipped; an unreadable file throws (call once at startup).
+ */
+export function getServerAgents(): { agents: Record<string, AgentDefinition>; errors: AgentError[] } {
+  if (serverAgents) return serverAgents;
+
+  const path = process.env.AGENTS_FILE;
+  if (!path) return (serverAgents = { agents: {}, errors: [] });
+
+  const definitions = JSON.parse(readFileSync(path, "utf8")) as Record<string, Record<string, unknown>>;
+  const loaded: { agents: Record<string, AgentDefinition>; errors: AgentError[] } = { agents: {}, errors: [] };
+  for (const [name, raw] of Object.entries(definitions)) {
+    const agent = validateAgent(name, raw);
+    if (typeof agent === "string") {
+      console.warn(`Skipping agent "${name}" from ${path}: ${agent}`);
+      loaded.errors.push({ source: name, error: agent });
+    } else {
+      loaded.agents[name] = agent;
+    }
+  }
+  return (serverAgents = loaded);
+}
+
+/**
+ * Parse an agent file: YAML-style frontmatter (name, description, tools,
+ * model) followed by the prompt.
+ */
+function parseAgentFile(content: string): { name?: string; raw: Record<string, unknown> } {
+  const match = content.match(/^---\r?\n([\s\S]*?)\r?\n---\r?\n?([\s\S]*)$/);
+  if (!match) return { raw: { prompt: content } };
+
+  const fields: Record<string, string> = {};
+  for (const line of match[1].split(/\r?\n/)) {
+    const field = line.match(/^(\w+):\s*(.*)$/);
+    if (field) {
+      fields[field[1]] = field[2].trim().replace(/^(["'])(.*)\1$/, "$2");
+    }
+  }
+
+  return {
+    name: fields.name,
+    raw: {
+      description: fields.description,
+      prompt: match[2],
+      model: fields.model || undefined,
+      tools: fields.tools
+        ? fields.tools.split(",").map((tool) => tool.trim()).filter(Boolean)
+        : undefined,
+    },
+  };
+}
+
+/** Subagents the repo ships in .claude/agents/*.md, validated */
+export async function readRepoAgents(
+  client: ClaudeAgentClient
+): Promise<{ agents: Record<string, AgentDefinition>; errors: AgentError[] }> {
+  const agents: Record<string, AgentDefinition> = {};
+  const errors: AgentError[] = [];
+
+  let files: string[];
+  try {
+    files = (await client.listFiles(REPO_AGENTS_DIR))
+      .filter((entry) => entry.name.endsWith(".md"))
+      .map((entry) => entry.name)
+      .slice(0, MAX_REPO_AGENTS);
+  } catch {
+    return { agents, errors }; // No agents directory
+  }
+
+  for (const file of files) {
+    const source = `${REPO_AGENTS_DIR}/${file}`;
+    try {
+      const content = (await client.readFile(source, "text")) as string;
+      const { name, raw } = parseAgentFile(content);
+      const agentName = name || file.replace(/\.md$/, "");
+      const agent = validateAgent(agentName, raw);
+      if (typeof agent === "string") {
+        errors.push({ source, error: agent });
+      } else {
+        agents[agentName] = agent;
+      }
+    } catch (error) {
+      errors.push({ source, error: error instanceof Error ? error.message : "unreadable" });
+    }
+  }
+  return { agents, errors };
+}
@@ -0,0 +1,84 @@
+import { sendWhatsAppMessage } from "./kapso.js";
+import { getSessionInfo, reloadRepoAgents } from "./claude.js";
+import { getServerAgents, type AgentError } from "./agent-definitions.js";
+import type { AgentDefinition } from "./lib/claude-agent/index.js";
+
+const USAGE = `*Agent commands*
+/agents - subagents Claude can delegate to
+/agents reload - read the repo's .claude/agents again`;
+
+function describeAgents(agents: Record<string, AgentDefinition>): string[] {
+  return Object.entries(agents).map(([name, agent]) => {
+    const details = [agent.model, agent.tools && `${agent.tools.length} tools`]
+      .filter(Boolean)
+      .join(" · ");
+    const description =
+      agent.description.length > 120 ? `${agent.description.slice(0, 120)}...` : agent.description;
+    return `🤖 *${name}*${details ? ` (${details})` : ""}\n${description}`;
+  });
+}
+
+function describeErrors(errors: AgentError[]): string {
+  return errors.map(({ source, error }) => `⚠️ ${source}: ${error}`).join("\n");
+}
+
+async function listAgents(contactId: string): Promise<void> {
+  const server = getServerAgents();
+  const session = getSessionInfo(contactId);
+
+  const sections: string[] = [];
+  const serverLines = describeAgents(server.agents);
+  if (serverLines.length > 0) {
+    sections.push(`*Server*\n${serverLines.join("\n\n")}`);
+  }
+  const repoLines = session ? describeAgents(session.repoAgents) : [];
+  if (repoLines.length > 0) {
+    sections.push(`*${session!.githubRepo}*\n${repoLines.join("\n\n")}`);
+  }
+  const errors = [...server.errors, ...(session?.repoAgentErrors || [])];
+  if (errors.length > 0) {
+    sections.push(describeErrors(errors));
+  }
+
+  await sendWhatsAppMessage(
+    contactId,
+    sections.length > 0
+      ? `*Subagents*\n──────────\n${sections.join("\n\n")}\n\nAsk Claude to hand work to one by name.\n\n${USAGE}`
+      : `No subagents yet. Add them to .claude/agents/ in your repo.\n\n${USAGE}`
+  );
+}
+
+/** Handle /agents and /agents reload. Returns false if `text` isn't an agents command. */
+export async function handleAgentsCommand(contactId: string, text: string): Promise<boolean> {
+  const [command, subcommand] = text.trim().toLowerCase().split(/\s+/);
+  if (command !== "/agents") return false;
+
+  try {
+    if (!subcommand) {
+      await listAgents(contactId);
+    } else if (subcommand === "reload") {
+      const result = await reloadRepoAgents(contactId);
+      if (!result) {
+        await sendWhatsAppMessage(contactId, "No active session.");
+      } else {
+        const names = Object.keys(result.agents);
+        const loaded = names.length > 0 ? `Loaded ${names.join(", ")} ✅` : "No agents found in .claude/agents/";
+        await sendWhatsAppMessage(
+          contactId,
+          result.errors.length > 0 ? `${loaded}\n\n${describeErrors(result.errors)}` : loaded
+        );
+      }
+    } else {
+      await sendWhatsAppMessage(contactId, USAGE);
+    }
+  } catch (error) {
+    console.error("Error loading agents:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    await sendWhatsAppMessage(
+      contactId,
+      `Failed to load agents: ${errorMessage.slice(0, 200)}`
+    );
+  }
+  return true;
+}
@@ -0,0 +1,114 @@
+import { readFileSync } from "fs";
+import type { ApprovalPolicy, ClaudeAgentClient } from "./lib/claude-agent/index.js";
+import { sendInteractiveButtons, sendWhatsAppMessage } from "./kapso.js";
+
+export const APPROVE_PREFIX = "approve:";
+export const DENY_PREFIX = "deny:";
+
+// Used when APPROVAL_POLICY_FILE is not set
+const DEFAULT_POLICY: ApprovalPolicy = {
+  rules: [
+    { tool: "Bash", commandPattern: "\\bgit\\s+push\\b.*(--force\\b|--force-with-lease\\b|\\s-f\\b)" },
+    { tool: "Bash", commandPattern: "\\brm\\s+-[a-zA-Z]*[rR][a-zA-Z]*f|\\brm\\s+-[a-zA-Z]*f[a-zA-Z]*[rR]" },
+    { tool: "Bash", commandPattern: "\\b(migrate|migration|db:push|db:reset)\\b" },
+    { tool: "Bash", commandPattern: "\\b(DROP|TRUNCATE)\\s+(TABLE|DATABASE)\\b" },
+  ],
+  timeoutMs: 5 * 60 * 1000,
+  timeoutDecision: "deny",
+};
+
+type PermissionRequest = {
+  requestId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+  timeoutMs: number;
+};
+
+type PendingApproval = {
+  contactId: string;
+  client: ClaudeAgentClient;
+  timer: ReturnType<typeof setTimeout>;
+};
+
+// Approval requests sent to WhatsApp and waiting for a button reply
+const pendingApprovals = new Map<string, PendingApproval>();
+
+let policy: ApprovalPolicy | undefined;
+
+/** Load the approval policy from APPROVAL_POLICY_FILE (JSON), or the built-in default */
+export function getApprovalPolicy(): ApprovalPolicy {
+  if (!policy) {
+    const path = process.env.APPROVAL_POLICY_FILE;
+    policy = path
+      ? (JSON.parse(readFileSync(path, "utf8")) as ApprovalPolicy)
+      : DEFAULT_POLICY;
+  }
+  return policy;
+}
+
+export function isApprovalButton(buttonId: string | undefined): boolean {
+  return (
+    buttonId?.startsWith(APPROVE_PREFIX) || buttonId?.startsWith(DENY_PREFIX) || false
+  );
+}
+
+function describeToolCall(toolName: string, input: Record<string, unknown>): string {
+  if (typeof input.command === "string") {
+    return `⚡ ${toolName}\n\`\`\`\n${input.command.slice(0, 500)}\n\`\`\``;
+  }
+  if (typeof input.file_path === "string") {
+    return `📝 ${toolName} \`${input.file_path}\``;
+  }
+  return `🔧 ${toolName}`;
+}
+
+/** Ask the user to approve a tool call with Approve/Deny buttons */
+export async function requestApproval(
+  contactId: string,
+  client: ClaudeAgentClient,
+  request: PermissionRequest
+): Promise<void> {
+  // The sandbox applies the timeout decision itself; this just tidies up and tells the user
+  const timer = setTimeout(async () => {
+    if (!pendingApprovals.delete(request.requestId)) return;
+    const decision = getApprovalPolicy().timeoutDecision === "allow" ? "approved" : "denied";
+    await sendWhatsAppMessage(contactId, `⏱️ No response, tool call ${decision} automatically.`).catch(() => {});
+  }, request.timeoutMs);
+
+  pendingApprovals.set(request.requestId, { contactId, client, timer });
+
+  const minutes = Math.round(request.timeoutMs / 60000);
+  await sendInteractiveButtons(contactId, {
+    header: "Approval needed 🔐",
+    body: `Claude wants to run:\n\n${describeToolCall(request.toolName, request.input)}`,
+    footer: `Expires in ${minutes} min`,
+    buttons: [
+      { id: `${APPROVE_PREFIX}${request.requestId}`, title: "Approve" },
+      { id: `${DENY_PREFIX}${request.requestId}`, title: "Deny" },
+    ],
+  });
+}
+
+/** Route an Approve/Deny button reply back to the sandbox */
+export async function handleApprovalButton(contactId: string, buttonId: string): Promise<void> {
+  const allow = buttonId.startsWith(APPROVE_PREFIX);
+  const requestId = buttonId.slice(allow ? APPROVE_PREFIX.length : DENY_PREFIX.length);
+  const pending = pendingApprovals.get(requestId);
+
+  if (!pending || pending.contactId !== contactId) {
+    await sendWhatsAppMessage(contactId, "This approval request has expired.");
+    return;
+  }
+
+  clearTimeout(pending.timer);
+  pendingApprovals.delete(requestId);
+
+  try {
+    pending.client.send({ type: "permission_response", requestId, allow });
+  } catch {
+    await sendWhatsAppMessage(contactId, "Session is no longer connected.");
+    return;
+  }
+
+  await sendWhatsAppMessage(contactId, allow ? "✅ Approved" : "❌ Denied");
+}
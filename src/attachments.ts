@@ -0,0 +1,177 @@
+import type { ClaudeAgentClient } from "./lib/claude-agent/index.js";
+import { downloadMedia, getMediaInfo, type InboundMedia } from "./kapso.js";
+import type { ImageMediaType, Prompt, PromptBlock } from "./claude.js";
+
+/** Where WhatsApp attachments are written inside the sandbox (git-ignored) */
+export const ATTACHMENTS_DIR = "/home/user/workspace/.whatsapp/attachments";
+
+const IMAGE_EXTENSIONS: Record<ImageMediaType, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/gif": "gif",
+  "image/webp": "webp",
+};
+
+const DEFAULT_DOCUMENT_EXTENSIONS = [
+  "pdf", "csv", "tsv", "txt", "md", "json", "yaml", "yml", "xml",
+  "log", "patch", "diff", "zip", "sql", "html",
+];
+
+const DEFAULT_DOCUMENT_MAX_BYTES = 20 * 1024 * 1024; // 20 MB
+
+function getAllowedExtensions(): string[] {
+  const configured = process.env.DOCUMENT_EXTENSIONS;
+  if (!configured) return DEFAULT_DOCUMENT_EXTENSIONS;
+  return configured.split(",").map((ext) => ext.trim().toLowerCase().replace(/^\./, ""));
+}
+
+function getMaxDocumentBytes(): number {
+  const configured = Number(process.env.DOCUMENT_MAX_BYTES);
+  return configured > 0 ? configured : DEFAULT_DOCUMENT_MAX_BYTES;
+}
+
+function toImageMediaType(mimeType: string | undefined): ImageMediaType {
+  const type = mimeType?.split(";")[0].trim();
+  return type && type in IMAGE_EXTENSIONS ? (type as ImageMediaType) : "image/jpeg";
+}
+
+function attachmentName(media: InboundMedia, extension: string): string {
+  const timestamp = new Date().toISOString().replace(/[:.]/g, "-");
+  return `${media.type}-${timestamp}-${media.id.slice(-6)}.${extension}`;
+}
+
+/** Write an attachment into the workspace and keep the folder out of git */
+export async function saveAttachment(
+  client: ClaudeAgentClient,
+  filename: string,
+  data: ArrayBuffer
+): Promise<string> {
+  const path = `${ATTACHMENTS_DIR}/${filename}`;
+
+  await client.runCommand(
+    `mkdir -p ${ATTACHMENTS_DIR} && cd /home/user/workspace && (grep -qxF '.whatsapp/' .git/info/exclude 2>/dev/null || echo '.whatsapp/' >> .git/info/exclude)`
+  );
+  await client.writeFile(path, new Blob([data]));
+
+  return path;
+}
+
+async function buildImagePrompt(
+  client: ClaudeAgentClient,
+  caption: string,
+  media: InboundMedia
+): Promise<PromptBlock[]> {
+  const data = await downloadMedia(media.id);
+  const mediaType = toImageMediaType(media.mimeType);
+
+  let text = caption.trim() || "Take a look at this image.";
+
+  // Optionally keep a copy in the workspace so Claude can reference it by path
+  if (process.env.SAVE_IMAGE_ATTACHMENTS === "true") {
+    const path = await saveAttachment(
+      client,
+      attachmentName(media, IMAGE_EXTENSIONS[mediaType]),
+      data
+    );
+    text += `\n\n(This image is also saved at ${path})`;
+  }
+
+  return [
+    {
+      type: "image",
+      source: {
+        type: "base64",
+        media_type: mediaType,
+        data: Buffer.from(data).toString("base64"),
+      },
+    },
+    { type: "text", text },
+  ];
+}
+
+function sanitizeFilename(filename: string): string {
+  const base = filename.split(/[\\/]/).pop() || "";
+  return base.replace(/[^\w.-]/g, "_").replace(/^\.+/, "") || "file";
+}
+
+/** Default instruction for Claude when a document arrives without a caption */
+function describeDocument(extension: string, path: string, extracted: boolean): string {
+  switch (extension) {
+    case "patch":
+    case "diff":
+      return `Apply the patch at ${path} to the repository (e.g. with \`git apply\`) and summarize what it changes.`;
+    case "log":
+      return `Analyze the log file at ${path}. Point out errors and their likely causes in the codebase.`;
+    case "csv":
+    case "tsv":
+      return `Analyze the data file at ${path} and summarize its contents.`;
+    case "zip":
+      if (extracted) {
+        return `The zip archive was extracted to ${path}. Look through its contents and summarize what's there.`;
+      }
+    // falls through
+    default:
+      return `The user sent a file, saved at ${path}. Read it and ask how you can help with it.`;
+  }
+}
+
+async function buildDocumentPrompt(
+  client: ClaudeAgentClient,
+  caption: string,
+  media: InboundMedia
+): Promise<string> {
+  const filename = sanitizeFilename(media.filename || attachmentName(media, "bin"));
+  const extension = filename.includes(".") ? filename.split(".").pop()!.toLowerCase() : "";
+
+  const allowed = getAllowedExtensions();
+  if (!allowed.includes(extension)) {
+    throw new Error(
+      `.${extension || "(none)"} files aren't accepted. Allowed: ${allowed.map((ext) => `.${ext}`).join(" ")}`
+    );
+  }
+
+  const maxBytes = getMaxDocumentBytes();
+  const { fileSize } = await getMediaInfo(media.id);
+  if (fileSize > maxBytes) {
+    throw new Error(
+      `${filename} is ${(fileSize / 1024 / 1024).toFixed(1)} MB, the limit is ${(maxBytes / 1024 / 1024).toFixed(1)} MB`
+    );
+  }
+
+  const data = await downloadMedia(media.id);
+  let path = await saveAttachment(client, filename, data);
+  let extracted = false;
+
+  // Optionally extract zip archives next to the original file
+  if (extension === "zip" && process.env.UNZIP_DOCUMENTS === "true") {
+    const targetDir = path.slice(0, -".zip".length);
+    const unzipResult = await client.runCommand(
+      `unzip -o -q '${path}' -d '${targetDir}'`
+    );
+    if (unzipResult.exitCode !== 0) {
+      throw new Error(`Failed to unzip ${filename}: ${unzipResult.stderr}`);
+    }
+    path = targetDir;
+    extracted = true;
+  }
+
+  const instruction = caption.trim() || describeDocument(extension, path, extracted);
+  return caption.trim()
+    ? `${instruction}\n\n(Attached file ${extracted ? "extracted to" : "saved at"} ${path})`
+    : instruction;
+}
+
+/** Build the prompt for a user message, downloading any attached media */
+export async function buildPrompt(
+  client: ClaudeAgentClient,
+  text: string,
+  media?: InboundMedia
+): Promise<Prompt> {
+  if (media?.type === "image") {
+    return buildImagePrompt(client, text, media);
+  }
+  if (media?.type === "document") {
+    return buildDocumentPrompt(client, text, media);
+  }
+  return text;
+}
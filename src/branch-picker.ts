@@ -0,0 +1,137 @@
+import { sendInteractiveList, sendWhatsAppMessage } from "./kapso.js";
+import { getGitHubIdentity } from "./github-auth.js";
+import { listBranches, listOpenPullRequests } from "./github.js";
+import { fuzzyScore } from "./repo-picker.js";
+
+export const BRANCH_PREFIX = "branch:";
+const MORE_PREFIX = "branch_more:";
+
+// WhatsApp lists hold at most 10 rows, one of which may be "More…"
+const MAX_ROWS = 10;
+
+export type BranchSource = "branches" | "pulls";
+
+type BranchRow = {
+  /** The branch to check out */
+  branch: string;
+  title: string;
+  description?: string;
+  /** Text the search matches against */
+  searchText: string;
+};
+
+export function isBranchPageButton(buttonId: string | undefined): boolean {
+  return buttonId?.startsWith(MORE_PREFIX) || false;
+}
+
+/** Open PRs (most recently updated first) or unprotected branches of a repo */
+async function loadRows(contactId: string, repo: string, source: BranchSource): Promise<BranchRow[]> {
+  const token = getGitHubIdentity(contactId)?.token || process.env.GITHUB_TOKEN!;
+
+  if (source === "pulls") {
+    const pulls = await listOpenPullRequests(token, repo);
+    return pulls.map((pr) => ({
+      branch: pr.headRef,
+      title: `#${pr.number} ${pr.title}`.slice(0, 24), // Row title max 24 chars
+      description: pr.headRef.slice(0, 72),
+      searchText: `${pr.number} ${pr.title} ${pr.headRef}`,
+    }));
+  }
+
+  // Protected branches (usually the default branch) can't be pushed to
+  const branches = await listBranches(token, repo);
+  return branches
+    .filter((branch) => !branch.protected)
+    .map((branch) => ({
+      branch: branch.name,
+      title: branch.name.slice(0, 24),
+      description: branch.name.length > 24 ? branch.name.slice(0, 72) : undefined,
+      searchText: branch.name,
+    }));
+}
+
+/** Keep rows matching `query`, best match first */
+function filterRows(rows: BranchRow[], query: string): BranchRow[] {
+  return rows
+    .map((row) => ({ row, score: fuzzyScore(query, row.branch, row.searchText) }))
+    .filter((match): match is { row: BranchRow; score: number } => match.score !== null)
+    .sort((a, b) => b.score - a.score)
+    .map((match) => match.row);
+}
+
+/**
+ * Send one page of the repo's branches or open PRs, optionally filtered by a
+ * search, with a "More…" row if there are more.
+ */
+export async function sendBranchList(
+  to: string,
+  repo: string,
+  source: BranchSource,
+  options: { page?: number; query?: string } = {}
+): Promise<void> {
+  const page = options.page ?? 0;
+  const all = await loadRows(to, repo, source);
+  const rows = options.query ? filterRows(all, options.query) : all;
+  const noun = source === "pulls" ? "open pull requests" : "unprotected branches";
+
+  if (rows.length === 0) {
+    await sendWhatsAppMessage(
+      to,
+      options.query
+        ? `No ${noun} in ${repo} match "${options.query}".\n\nSend /branch <name> to search again, or send your task to start on a new branch.`
+        : `No ${noun} found in ${repo}.\n\nSend your task to start on a new branch.`
+    );
+    return;
+  }
+
+  // Every page but the last gives up a row to "More…"
+  const pageSize = MAX_ROWS - 1;
+  const start = page * pageSize;
+  const hasMore = rows.length - start > MAX_ROWS;
+  const listRows = rows
+    .slice(start, hasMore ? start + pageSize : start + MAX_ROWS)
+    .map((row) => ({
+      id: `${BRANCH_PREFIX}${row.branch}`,
+      title: row.title,
+      description: row.description,
+    }));
+
+  if (hasMore) {
+    listRows.push({
+      id: `${MORE_PREFIX}${source}:${page + 1}:${(options.query || "").slice(0, 100)}`,
+      title: "More…",
+      description: `${rows.length - start - pageSize} more`,
+    });
+  }
+
+  const search = options.query ? `Matching "${options.query}"` : "Send /branch <name> to search.";
+  await sendInteractiveList(to, {
+    header: source === "pulls" ? "Open pull requests" : "Branches",
+    body: `📁 ${repo}\n\n${search}`,
+    footer: "Powered by Kapso",
+    buttonText: source === "pulls" ? "Select PR" : "Select branch",
+    sectionTitle: page === 0 ? (source === "pulls" ? "Pull requests" : "Branches") : `Page ${page + 1}`,
+    rows: listRows,
+  });
+}
+
+/** Handle a "More…" row: send the next page of the same list */
+export async function handleBranchPageButton(contactId: string, repo: string, buttonId: string): Promise<void> {
+  const [source, page, ...query] = buttonId.slice(MORE_PREFIX.length).split(":");
+  await sendBranchList(contactId, repo, source === "pulls" ? "pulls" : "branches", {
+    page: Number(page) || 0,
+    query: query.join(":") || undefined,
+  });
+}
+
+/**
+ * Handle /branch <query> while picking where to work: search the repo's
+ * branches. Returns false if `text` isn't a branch command.
+ */
+export async function handleBranchCommand(contactId: string, repo: string, text: string): Promise<boolean> {
+  const match = text.trim().match(/^\/branch(?:\s+(.*))?$/i);
+  if (!match) return false;
+
+  await sendBranchList(contactId, repo, "branches", { query: match[1]?.trim() || undefined });
+  return true;
+}
@@ -1,53 +1,304 @@
-import { ClaudeAgentClient } from "./lib/claude-agent/index.js";
+import {
+  ClaudeAgentClient,
+  type AgentDefinition,
+  type QueryConfig,
+  type WSOutputMessage,
+} from "./lib/claude-agent/index.js";
+import { createStore } from "./store.js";
+import { getApprovalPolicy } from "./approvals.js";
+import { recordSandboxTime, recordTurn } from "./usage.js";
+import { readRepoMcpServers, resolveMcpServers } from "./mcp-registry.js";
+import { getServerAgents, readRepoAgents, type AgentError } from "./agent-definitions.js";
+
+export type Effort = "low" | "medium" | "high";
+
+/** Model and budget of a session, set with /model */
+export type SessionSettings = {
+  model?: string;
+  effort?: Effort;
+  /** Max turns Claude may take before stopping */
+  maxTurns?: number;
+  /** Max spend in USD for the session, across queries and resumes */
+  maxBudgetUsd?: number;
+};
+
+// Thinking budget per effort level
+const EFFORT_THINKING_TOKENS: Record<Effort, number> = {
+  low: 1024,
+  medium: 8000,
+  high: 32000,
+};
+
+function toQueryConfig(settings: SessionSettings): Partial<QueryConfig> {
+  return {
+    model: settings.model,
+    maxTurns: settings.maxTurns,
+    // maxBudgetUsd is enforced per session by the bot (checkSessionBudget): the SDK's resets with each query
+    maxThinkingTokens: settings.effort ? EFFORT_THINKING_TOKENS[settings.effort] : undefined,
+  };
+}
 
 type SessionData = {
   client: ClaudeAgentClient;
+  contactId: string;
+  name: string;
   sandboxId: string;
   branchName: string;
   githubRepo: string;
   isProcessing: boolean;
+  createdAt: number;
+  /** The most recently focused session receives the contact's messages */
+  focusedAt: number;
+  settings: SessionSettings;
+  /** Registry MCP servers the repo asks for in .whatsapp-claude.json */
+  repoMcpServers: string[];
+  /** Subagents the repo ships in .claude/agents (the SDK loads them itself) */
+  repoAgents: Record<string, AgentDefinition>;
+  /** Repo agent files that failed validation */
+  repoAgentErrors: AgentError[];
+  /** When the sandbox was started or resumed, for sandbox time accounting */
+  connectedAt: number;
+  lastActiveAt: number;
 };
 
-type PausedSession = {
-  sandboxId: string;
-  branchName: string;
-  githubRepo: string;
+type PausedSession = Omit<SessionData, "client" | "isProcessing" | "connectedAt" | "lastActiveAt">;
+
+type SessionRow = {
+  /** "<contact_id>:<name>" */
+  session_key: string;
+  contact_id: string;
+  name: string;
+  sandbox_id: string;
+  branch_name: string;
+  github_repo: string;
+  status: "active" | "paused";
+  created_at: string;
+  focused_at: string;
+  settings?: SessionSettings | null;
+  repo_mcp_servers?: string[] | null;
+  repo_agents?: Record<string, AgentDefinition> | null;
+  repo_agent_errors?: AgentError[] | null;
+  updated_at: string;
 };
 
-// Active sessions (connected)
+// Sandboxes a contact may keep at once (active or paused)
+const MAX_SESSIONS = Number(process.env.MAX_SESSIONS) || 3;
+
+// Sandboxes pause after this long without activity
+const SANDBOX_TIMEOUT_MS = 30 * 60 * 1000;
+
+// Active sessions (connected), keyed by sessionKey()
 const activeSessions = new Map<string, SessionData>();
 
-// Paused sessions (can be resumed)
+// Paused sessions (can be resumed), keyed by sessionKey()
 const pausedSessions = new Map<string, PausedSession>();
 
+// Persistent copy of both maps so sandboxes survive server restarts
+const sessionStore = createStore<SessionRow>("whatsapp_sessions", "session_key");
+
+export function sessionKey(contactId: string, name: string): string {
+  return `${contactId}:${name}`;
+}
+
+function toPaused(session: SessionData): PausedSession {
+  return {
+    contactId: session.contactId,
+    name: session.name,
+    sandboxId: session.sandboxId,
+    branchName: session.branchName,
+    githubRepo: session.githubRepo,
+    createdAt: session.createdAt,
+    focusedAt: session.focusedAt,
+    settings: session.settings,
+    repoMcpServers: session.repoMcpServers,
+    repoAgents: session.repoAgents,
+    repoAgentErrors: session.repoAgentErrors,
+  };
+}
+
+/**
+ * The `agents` option: server-wide agents only, since the SDK loads the
+ * repo's .claude/agents itself. Passed agents would override the repo's, so
+ * names the repo defines are left out.
+ */
+function sessionAgents(repoAgents: Record<string, AgentDefinition>): Record<string, AgentDefinition> {
+  return Object.fromEntries(
+    Object.entries(getServerAgents().agents).filter(([name]) => !(name in repoAgents))
+  );
+}
+
+/** Record how long a session's sandbox ran, as it leaves the active map */
+function recordSandboxUsage(session: SessionData): void {
+  // A sandbox that disconnected on its own paused after the inactivity timeout
+  const end = Math.min(Date.now(), session.lastActiveAt + SANDBOX_TIMEOUT_MS);
+  recordSandboxTime(session, end - session.connectedAt).catch((error) =>
+    console.error("Failed to record sandbox time:", error)
+  );
+}
+
+/** Write the current state of a session to the store */
+function persistSession(key: string): void {
+  const active = activeSessions.get(key);
+  const session = active || pausedSessions.get(key);
+
+  const write = session
+    ? sessionStore.set(key, {
+        session_key: key,
+        contact_id: session.contactId,
+        name: session.name,
+        sandbox_id: session.sandboxId,
+        branch_name: session.branchName,
+        github_repo: session.githubRepo,
+        status: active ? "active" : "paused",
+        created_at: new Date(session.createdAt).toISOString(),
+        focused_at: new Date(session.focusedAt).toISOString(),
+        settings: session.settings,
+        repo_mcp_servers: session.repoMcpServers,
+        repo_agents: session.repoAgents,
+        repo_agent_errors: session.repoAgentErrors,
+        updated_at: new Date().toISOString(),
+      })
+    : sessionStore.delete(key);
+
+  write.catch((error) => console.error("Failed to persist session:", error));
+}
+
+/**
+ * Load sessions saved by a previous process. They are restored as paused:
+ * the WebSocket is gone, but getOrCreateClient can reconnect to the sandbox.
+ */
+export async function restoreSessions(): Promise<number> {
+  const rows = await sessionStore.all();
+  let restored = 0;
+
+  for (const row of rows) {
+    // Rows from before named sessions were keyed by contact only
+    const name = row.name || nextSessionName(row.contact_id, row.github_repo);
+    const key = sessionKey(row.contact_id, name);
+    if (!row.sandbox_id || activeSessions.has(key) || pausedSessions.has(key)) continue;
+
+    const createdAt = Date.parse(row.created_at) || Date.now();
+    pausedSessions.set(key, {
+      contactId: row.contact_id,
+      name,
+      sandboxId: row.sandbox_id,
+      branchName: row.branch_name,
+      githubRepo: row.github_repo,
+      createdAt,
+      focusedAt: Date.parse(row.focused_at) || createdAt,
+      settings: row.settings || {},
+      repoMcpServers: row.repo_mcp_servers || [],
+      repoAgents: row.repo_agents || {},
+      repoAgentErrors: row.repo_agent_errors || [],
+    });
+    if (row.session_key !== key) {
+      persistSession(key);
+      sessionStore.delete(row.session_key || row.contact_id).catch(() => {});
+    }
+    restored++;
+  }
+
+  return restored;
+}
+
+/** All of a contact's sessions, active and paused */
+function getContactSessions(contactId: string): Array<SessionData | PausedSession> {
+  return [...activeSessions.values(), ...pausedSessions.values()].filter(
+    (session) => session.contactId === contactId
+  );
+}
+
+/** Name of the session the contact's messages go to, if they have any */
+export function getFocusedSession(contactId: string): string | null {
+  const sessions = getContactSessions(contactId);
+  if (sessions.length === 0) return null;
+  return sessions.reduce((a, b) => (b.focusedAt > a.focusedAt ? b : a)).name;
+}
+
+/** Route the contact's messages to another of their sessions */
+export function focusSession(contactId: string, name: string): boolean {
+  const key = sessionKey(contactId, name);
+  const session = activeSessions.get(key) || pausedSessions.get(key);
+  if (!session) return false;
+
+  session.focusedAt = Date.now();
+  persistSession(key);
+  return true;
+}
+
+/** A free session name for a repo: "api", then "api-2", "api-3"... */
+export function nextSessionName(contactId: string, githubRepo: string): string {
+  const base =
+    (githubRepo.split("/").pop() || "session")
+      .toLowerCase()
+      .replace(/[^a-z0-9-]/g, "-")
+      .slice(0, 20) || "session";
+  const taken = new Set(getContactSessions(contactId).map((session) => session.name));
+
+  let name = base;
+  for (let n = 2; taken.has(name); n++) {
+    name = `${base}-${n}`;
+  }
+  return name;
+}
+
+/** Key of the named session, or the focused one */
+function resolveKey(contactId: string, name?: string): string | null {
+  const resolved = name ?? getFocusedSession(contactId);
+  return resolved ? sessionKey(contactId, resolved) : null;
+}
+
+/** Per-contact settings applied when a session is created or resumed */
+export type SessionOptions = {
+  /** Block pushes and PRs, and keep the GitHub token out of the sandbox */
+  readOnly?: boolean;
+  /** The contact's own GitHub token (from /login). Defaults to GITHUB_TOKEN */
+  githubToken?: string;
+  /** Commit author. Defaults to "Claude on Kapso" */
+  gitAuthor?: { name: string; email: string };
+  /** Existing branch to check out instead of creating a new session branch */
+  branch?: string;
+  /** Session to get or create. Defaults to the focused session, or a new one named after the repo */
+  sessionName?: string;
+  /** Model and budget for a new session (resumed sessions keep their own) */
+  settings?: SessionSettings;
+  /** Registry MCP servers the contact attached with /mcp */
+  mcpServers?: string[];
+};
+
 export async function getOrCreateClient(
   contactId: string,
-  githubRepo: string
+  githubRepo: string,
+  options: SessionOptions = {}
 ): Promise<{
   client: ClaudeAgentClient;
   isNew: boolean;
+  sessionName: string;
   branchName?: string;
   githubRepo?: string;
   resumed?: boolean;
   sessionWasReset?: boolean;
 }> {
+  const sessionName =
+    options.sessionName ?? getFocusedSession(contactId) ?? nextSessionName(contactId, githubRepo);
+  const key = sessionKey(contactId, sessionName);
+
   // Check active sessions
-  if (activeSessions.has(contactId)) {
-    const session = activeSessions.get(contactId)!;
+  if (activeSessions.has(key)) {
+    const session = activeSessions.get(key)!;
 
     // If client disconnected (e.g., sandbox auto-paused), move to paused sessions
     if (!session.client.isConnected) {
-      pausedSessions.set(contactId, {
-        sandboxId: session.sandboxId,
-        branchName: session.branchName,
-        githubRepo: session.githubRepo,
-      });
-      activeSessions.delete(contactId);
+      recordSandboxUsage(session);
+      pausedSessions.set(key, toPaused(session));
+      activeSessions.delete(key);
+      persistSession(key);
       // Fall through to resume logic below
     } else {
       return {
         client: session.client,
         isNew: false,
+        sessionName,
         branchName: session.branchName,
         githubRepo: session.githubRepo,
       };
@@ -56,69 +307,101 @@ export async function getOrCreateClient(
 
   // Check paused sessions - try to resume
   let sessionWasReset = false;
-  if (pausedSessions.has(contactId)) {
-    const paused = pausedSessions.get(contactId)!;
+  if (pausedSessions.has(key)) {
+    const paused = pausedSessions.get(key)!;
     try {
       const client = await ClaudeAgentClient.connect(paused.sandboxId, {
         e2bApiKey: process.env.E2B_API_KEY,
         anthropicApiKey: process.env.ANTHROPIC_API_KEY,
-        githubToken: process.env.GITHUB_TOKEN,
+        githubToken: options.readOnly ? undefined : options.githubToken || process.env.GITHUB_TOKEN,
         debug: true,
         tools: { type: "preset", preset: "claude_code" },
-        systemPrompt: getSystemPrompt(paused.branchName, paused.githubRepo),
+        systemPrompt: getSystemPrompt(paused.branchName, paused.githubRepo, options),
         sessionBranch: paused.branchName,
+        approvalPolicy: getApprovalPolicy(),
+        readOnly: options.readOnly,
+        ...toQueryConfig(paused.settings),
+        mcpServers: resolveMcpServers([...(options.mcpServers || []), ...paused.repoMcpServers], options),
+        agents: sessionAgents(paused.repoAgents),
       });
 
-      activeSessions.set(contactId, {
+      activeSessions.set(key, {
+        ...paused,
         client,
-        sandboxId: paused.sandboxId,
-        branchName: paused.branchName,
-        githubRepo: paused.githubRepo,
         isProcessing: false,
+        connectedAt: Date.now(),
+        lastActiveAt: Date.now(),
       });
-      pausedSessions.delete(contactId);
+      pausedSessions.delete(key);
+      persistSession(key);
 
       return {
         client,
         isNew: false,
+        sessionName,
         branchName: paused.branchName,
         githubRepo: paused.githubRepo,
         resumed: true,
       };
     } catch {
-      pausedSessions.delete(contactId);
+      pausedSessions.delete(key);
+      persistSession(key);
       sessionWasReset = true; // Mark that we failed to resume
     }
   }
 
-  // Generate branch name before creating client
-  const branchName = generateBranchName(contactId);
+  if (getContactSessions(contactId).length >= MAX_SESSIONS) {
+    throw new Error(
+      `You already have ${MAX_SESSIONS} sessions. End one with /reset (see /sessions) first.`
+    );
+  }
+
+  // Use the chosen branch, or generate a new one before creating client
+  const branchName = options.branch || generateBranchName(contactId);
+  const settings = options.settings || {};
 
   // Create new session
   const client = new ClaudeAgentClient({
     e2bApiKey: process.env.E2B_API_KEY,
     anthropicApiKey: process.env.ANTHROPIC_API_KEY,
-    githubToken: process.env.GITHUB_TOKEN,
+    githubToken: options.readOnly ? undefined : options.githubToken || process.env.GITHUB_TOKEN,
     template: process.env.E2B_TEMPLATE || "claude-whatsapp-server",
-    timeoutMs: 30 * 60 * 1000, // 30 minutes inactivity timeout
+    timeoutMs: SANDBOX_TIMEOUT_MS, // 30 minutes inactivity timeout
     autoPause: true, // Pause on timeout instead of kill
     debug: true,
     tools: { type: "preset", preset: "claude_code" },
-    systemPrompt: getSystemPrompt(branchName, githubRepo),
+    systemPrompt: getSystemPrompt(branchName, githubRepo, options),
     sessionBranch: branchName,
+    approvalPolicy: getApprovalPolicy(),
+    readOnly: options.readOnly,
+    ...toQueryConfig(settings),
+    mcpServers: resolveMcpServers(options.mcpServers || [], options),
+    agents: sessionAgents({}),
   });
 
   await client.start();
 
-  activeSessions.set(contactId, {
+  // New sessions take focus
+  activeSessions.set(key, {
     client,
+    contactId,
+    name: sessionName,
     sandboxId: client.sandboxId || "",
     githubRepo,
     branchName,
     isProcessing: false,
+    createdAt: Date.now(),
+    focusedAt: Date.now(),
+    settings,
+    repoMcpServers: [],
+    repoAgents: {},
+    repoAgentErrors: [],
+    connectedAt: Date.now(),
+    lastActiveAt: Date.now(),
   });
+  persistSession(key);
 
-  return { client, isNew: true, branchName, githubRepo, sessionWasReset };
+  return { client, isNew: true, sessionName, branchName, githubRepo, sessionWasReset };
 }
 
 function generateBranchName(contactId: string): string {
@@ -127,26 +410,40 @@ function generateBranchName(contactId: string): string {
   return `session/${sanitizedContact}-${timestamp}`;
 }
 
-function getSystemPrompt(branchName: string, githubRepo: string) {
+function getSystemPrompt(
+  branchName: string,
+  githubRepo: string,
+  options: SessionOptions = {}
+) {
+  const readOnlyNote = options.readOnly
+    ? "\nThis is a read-only session: you cannot push commits or create pull requests. Explain changes or show diffs instead."
+    : "";
+
   return {
     type: "preset" as const,
     preset: "claude_code" as const,
     append: `\n\nYou are helping a user via WhatsApp. Keep responses concise but helpful.
 The GitHub repository ${githubRepo} should be cloned to /home/user/workspace.
 Always work within this directory.
-You are working on branch: ${branchName}. Do not switch or create other branches.
+You are working on branch: ${branchName}. Do not switch or create other branches.${readOnlyNote}
 
 When creating PRs or commits, always end the description/body with:
 🤖 Generated with [Claude Code](https://claude.ai/code) on WhatsApp using [Kapso](https://kapso.ai)`,
   };
 }
 
+/** Quote a value for a POSIX shell command */
+export function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, "'\\''")}'`;
+}
+
 export async function setupRepository(
   client: ClaudeAgentClient,
   branchName: string,
-  githubRepo: string
+  githubRepo: string,
+  options: SessionOptions = {}
 ): Promise<void> {
-  const githubToken = process.env.GITHUB_TOKEN;
+  const githubToken = options.githubToken || process.env.GITHUB_TOKEN;
 
   const cloneUrl = githubToken
     ? `https://${githubToken}@github.com/${githubRepo}.git`
@@ -161,21 +458,67 @@ export async function setupRepository(
     throw new Error(`Failed to clone repository: ${cloneResult.stderr}`);
   }
 
-  // Configure git identity for commits
+  // Read-only sessions must not keep the token in the remote URL
+  if (options.readOnly && githubToken) {
+    await client.runCommand(
+      `cd /home/user/workspace && git remote set-url origin https://github.com/${githubRepo}.git`
+    );
+  }
+
+  // Configure git identity for commits (the logged-in GitHub user, if any)
+  const author = options.gitAuthor || { name: "Claude on Kapso", email: "claude@kap.so" };
   await client.runCommand(
-    `cd /home/user/workspace && git config user.name "Claude on Kapso" && git config user.email "claude@kap.so"`
+    `cd /home/user/workspace && git config user.name ${shellQuote(author.name)} && git config user.email ${shellQuote(author.email)}`
   );
 
-  // Create and checkout new branch
+  // Check out the existing branch, or create and checkout a new one
   const branchResult = await client.runCommand(
-    `cd /home/user/workspace && git checkout -b ${branchName}`
+    options.branch
+      ? `cd /home/user/workspace && git checkout ${shellQuote(branchName)}`
+      : `cd /home/user/workspace && git checkout -b ${branchName}`
   );
 
   if (branchResult.exitCode !== 0) {
-    throw new Error(`Failed to create branch: ${branchResult.stderr}`);
+    throw new Error(
+      `Failed to ${options.branch ? "check out" : "create"} branch: ${branchResult.stderr}`
+    );
+  }
+
+  // Add the MCP servers the repo asks for in .whatsapp-claude.json and its subagents
+  const session = [...activeSessions.values()].find((s) => s.client === client);
+  if (!session) return;
+
+  const repoMcpServers = await readRepoMcpServers(client);
+  const { agents: repoAgents, errors } = await readRepoAgents(client);
+  for (const { source, error } of errors) {
+    console.warn(`Skipping agent ${source} in ${githubRepo}: ${error}`);
   }
+  if (repoMcpServers.length === 0 && Object.keys(repoAgents).length === 0 && errors.length === 0) return;
+
+  session.repoMcpServers = repoMcpServers;
+  session.repoAgents = repoAgents;
+  session.repoAgentErrors = errors;
+  persistSession(sessionKey(session.contactId, session.name));
+  // The query started before the clone, so it must read .claude/ again
+  await client.updateConfig({
+    mcpServers: resolveMcpServers([...(options.mcpServers || []), ...repoMcpServers], options),
+    agents: sessionAgents(repoAgents),
+    settingsRevision: Date.now(),
+  });
 }
 
+export type ImageMediaType = "image/jpeg" | "image/png" | "image/gif" | "image/webp";
+
+/** Content blocks accepted in a user message (multimodal prompts) */
+export type PromptBlock =
+  | { type: "text"; text: string }
+  | {
+      type: "image";
+      source: { type: "base64"; media_type: ImageMediaType; data: string };
+    };
+
+export type Prompt = string | PromptBlock[];
+
 type ToolUseInfo = {
   name: string;
   input?: Record<string, unknown>;
@@ -183,9 +526,12 @@ type ToolUseInfo = {
   isError?: boolean;
 };
 
-/** Interrupt an active session if it's currently processing */
-export function interruptSession(contactId: string): boolean {
-  const session = activeSessions.get(contactId);
+type PermissionRequest = Extract<WSOutputMessage, { type: "permission_request" }>;
+
+/** Interrupt a session (default: the focused one) if it's currently processing */
+export function interruptSession(contactId: string, name?: string): boolean {
+  const key = resolveKey(contactId, name);
+  const session = key ? activeSessions.get(key) : undefined;
   if (!session || !session.isProcessing) {
     return false;
   }
@@ -193,24 +539,27 @@ export function interruptSession(contactId: string): boolean {
   return true;
 }
 
-/** Check if a session is currently processing a message */
-export function isSessionProcessing(contactId: string): boolean {
-  const session = activeSessions.get(contactId);
-  return session?.isProcessing ?? false;
+/** Check if a session (default: the focused one) is currently processing a message */
+export function isSessionProcessing(contactId: string, name?: string): boolean {
+  const key = resolveKey(contactId, name);
+  return (key && activeSessions.get(key)?.isProcessing) || false;
 }
 
 export async function sendMessage(
   client: ClaudeAgentClient,
   contactId: string,
-  message: string,
+  message: Prompt,
   onMessage: (text: string) => void,
-  onToolComplete?: (tool: ToolUseInfo) => void
+  onToolComplete?: (tool: ToolUseInfo) => void,
+  onPermissionRequest?: (request: PermissionRequest) => void
 ): Promise<void> {
   // Mark session as processing
-  const session = activeSessions.get(contactId);
+  const session = [...activeSessions.values()].find((s) => s.client === client);
   if (session) {
     session.isProcessing = true;
+    session.lastActiveAt = Date.now();
   }
+  const startedAt = Date.now();
 
   // Track pending tool calls to match with results
   const pendingTools = new Map<string, { name: string; input: Record<string, unknown> }>();
@@ -231,6 +580,14 @@ export async function sendMessage(
         const data = msg.data as {
           type: string;
           subtype?: string;
+          total_cost_usd?: number;
+          duration_ms?: number;
+          usage?: {
+            input_tokens?: number;
+            output_tokens?: number;
+            cache_read_input_tokens?: number;
+            cache_creation_input_tokens?: number;
+          };
           tool_use_id?: string;
           content?: string | Array<{ type: string; text?: string }>;
           message?: {
@@ -277,11 +634,32 @@ export async function sendMessage(
             }
           }
         } else if (data.type === "result") {
+          if (session) {
+            session.lastActiveAt = Date.now();
+            recordTurn(session, {
+              inputTokens: data.usage?.input_tokens ?? 0,
+              outputTokens: data.usage?.output_tokens ?? 0,
+              cacheReadTokens: data.usage?.cache_read_input_tokens ?? 0,
+              cacheCreationTokens: data.usage?.cache_creation_input_tokens ?? 0,
+              // Sandboxes built before turnCostUsd only report the query's running total
+              costUsd: msg.turnCostUsd ?? data.total_cost_usd ?? 0,
+              durationMs: data.duration_ms ?? Date.now() - startedAt,
+            }).catch((error) => console.error("Failed to record usage:", error));
+          }
+
+          // Budgets from /model stop the turn early
+          if (data.subtype === "error_max_turns") {
+            onMessage("⚠️ Stopped: this session reached its max turns. Raise it with /model turns <n>.");
+          } else if (data.subtype === "error_max_budget_usd") {
+            onMessage("⚠️ Stopped: this session reached its max spend. Raise it with /model budget <usd>.");
+          }
           resolved = true;
           unsubscribe();
           cleanup();
           resolve();
         }
+      } else if (msg.type === "permission_request") {
+        onPermissionRequest?.(msg);
       } else if (msg.type === "error") {
         resolved = true;
         unsubscribe();
@@ -315,41 +693,55 @@ export async function sendMessage(
   });
 }
 
-export async function pauseClient(contactId: string): Promise<void> {
-  const session = activeSessions.get(contactId);
-  if (!session) return;
+export async function pauseClient(contactId: string, name?: string): Promise<void> {
+  const key = resolveKey(contactId, name);
+  const session = key ? activeSessions.get(key) : undefined;
+  if (!key || !session) return;
 
+  recordSandboxUsage(session);
   try {
     await session.client.pause();
-    pausedSessions.set(contactId, {
-      sandboxId: session.sandboxId,
-      branchName: session.branchName,
-      githubRepo: session.githubRepo,
-    });
+    pausedSessions.set(key, toPaused(session));
   } catch {
     // Ignore pause errors
   }
 
-  activeSessions.delete(contactId);
+  activeSessions.delete(key);
+  persistSession(key);
 }
 
-export async function killClient(contactId: string): Promise<void> {
-  const session = activeSessions.get(contactId);
+/** End a session (default: the focused one). Focus moves to the previously focused session */
+export async function killClient(contactId: string, name?: string): Promise<void> {
+  const key = resolveKey(contactId, name);
+  if (!key) return;
+
+  const session = activeSessions.get(key);
   if (session) {
+    recordSandboxUsage(session);
     await session.client.stop();
-    activeSessions.delete(contactId);
+    activeSessions.delete(key);
   }
 
   // Also remove from paused sessions
-  pausedSessions.delete(contactId);
+  pausedSessions.delete(key);
+  persistSession(key);
 }
 
-export function hasActiveClient(contactId: string): boolean {
-  return activeSessions.has(contactId);
+/** End all of a contact's sessions */
+export async function killAllClients(contactId: string): Promise<void> {
+  for (const session of getContactSessions(contactId)) {
+    await killClient(contactId, session.name);
+  }
+}
+
+export function hasActiveClient(contactId: string, name?: string): boolean {
+  const key = resolveKey(contactId, name);
+  return key ? activeSessions.has(key) : false;
 }
 
-export function hasPausedSession(contactId: string): boolean {
-  return pausedSessions.has(contactId);
+export function hasPausedSession(contactId: string, name?: string): boolean {
+  const key = resolveKey(contactId, name);
+  return key ? pausedSessions.has(key) : false;
 }
 
 export function getSessionStats(): {
@@ -362,29 +754,111 @@ export function getSessionStats(): {
   };
 }
 
-export function getSessionInfo(contactId: string): {
+export type SessionInfo = {
+  name: string;
   sandboxId: string;
   branchName: string;
   githubRepo: string;
   status: "active" | "paused";
-} | null {
-  const active = activeSessions.get(contactId);
+  isProcessing: boolean;
+  focused: boolean;
+  settings: SessionSettings;
+  repoMcpServers: string[];
+  repoAgents: Record<string, AgentDefinition>;
+  repoAgentErrors: AgentError[];
+};
+
+function toSessionInfo(session: SessionData | PausedSession, focused: string | null): SessionInfo {
+  const active = "client" in session;
+  return {
+    name: session.name,
+    sandboxId: session.sandboxId,
+    branchName: session.branchName,
+    githubRepo: session.githubRepo,
+    status: active ? "active" : "paused",
+    isProcessing: active ? session.isProcessing : false,
+    focused: session.name === focused,
+    settings: session.settings,
+    repoMcpServers: session.repoMcpServers,
+    repoAgents: session.repoAgents,
+    repoAgentErrors: session.repoAgentErrors,
+  };
+}
+
+/** Info about a session (default: the focused one) */
+export function getSessionInfo(contactId: string, name?: string): SessionInfo | null {
+  const key = resolveKey(contactId, name);
+  const session = key ? activeSessions.get(key) || pausedSessions.get(key) : undefined;
+  return session ? toSessionInfo(session, getFocusedSession(contactId)) : null;
+}
+
+/** All of a contact's sessions, oldest first */
+export function listSessions(contactId: string): SessionInfo[] {
+  const focused = getFocusedSession(contactId);
+  return getContactSessions(contactId)
+    .sort((a, b) => a.createdAt - b.createdAt)
+    .map((session) => toSessionInfo(session, focused));
+}
+
+/**
+ * Change a session's model or budget (default: the focused session). Active
+ * sandboxes get the new config right away, keeping the conversation; paused
+ * ones pick it up when they resume.
+ */
+export async function updateSessionSettings(
+  contactId: string,
+  update: SessionSettings,
+  name?: string
+): Promise<SessionSettings | null> {
+  const key = resolveKey(contactId, name);
+  const session = key ? activeSessions.get(key) || pausedSessions.get(key) : undefined;
+  if (!key || !session) return null;
+
+  session.settings = { ...session.settings, ...update };
+  persistSession(key);
+
+  const active = activeSessions.get(key);
   if (active) {
-    return {
-      sandboxId: active.sandboxId,
-      branchName: active.branchName,
-      githubRepo: active.githubRepo,
-      status: "active",
-    };
+    await active.client.updateConfig(toQueryConfig(session.settings));
   }
-  const paused = pausedSessions.get(contactId);
-  if (paused) {
-    return {
-      sandboxId: paused.sandboxId,
-      branchName: paused.branchName,
-      githubRepo: paused.githubRepo,
-      status: "paused",
-    };
+  return session.settings;
+}
+
+/**
+ * Give the contact's active sessions a new set of /mcp servers (plus each
+ * repo's own). Paused sessions pick them up when they resume.
+ */
+export async function updateMcpServers(
+  contactId: string,
+  mcpServers: string[],
+  options: { readOnly?: boolean } = {}
+): Promise<void> {
+  for (const session of activeSessions.values()) {
+    if (session.contactId !== contactId) continue;
+    await session.client.updateConfig({
+      mcpServers: resolveMcpServers([...mcpServers, ...session.repoMcpServers], options),
+    });
   }
-  return null;
+}
+
+/**
+ * Validate the focused session's .claude/agents again (after the repo
+ * changed) and have the SDK reload them. Returns null without an active session.
+ */
+export async function reloadRepoAgents(
+  contactId: string
+): Promise<{ agents: Record<string, AgentDefinition>; errors: AgentError[] } | null> {
+  const key = resolveKey(contactId);
+  const session = key ? activeSessions.get(key) : undefined;
+  if (!key || !session) return null;
+
+  const result = await readRepoAgents(session.client);
+  session.repoAgents = result.agents;
+  session.repoAgentErrors = result.errors;
+  persistSession(key);
+  await session.client.updateConfig({
+    agents: sessionAgents(result.agents),
+    settingsRevision: Date.now(),
+  });
+  return result;
 }
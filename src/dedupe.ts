@@ -0,0 +1,124 @@
+import { sendWhatsAppMessage, type ParsedMessage } from "./kapso.js";
+import { isAuthorized } from "./access.js";
+import { createStore } from "./store.js";
+
+/** Why an inbound message isn't processed ("new" means it is) */
+export type InboundVerdict = "new" | "duplicate" | "out_of_order" | "stale";
+
+type SeenRow = {
+  message_id: string;
+  contact_id: string;
+  /** When the user sent it (ms), 0 if unknown */
+  timestamp: number;
+  seen_at: number;
+};
+
+// Message IDs are remembered this long (Kapso retries failed deliveries for hours)
+const DEDUPE_TTL_MS = Number(process.env.DEDUPE_TTL_MS) || 24 * 60 * 60 * 1000;
+
+// Oldest IDs are forgotten first beyond this many
+const MAX_SEEN_MESSAGES = 10000;
+
+// Messages sent longer ago than this are skipped (0 to process them anyway)
+const MAX_MESSAGE_AGE_MS = process.env.MAX_MESSAGE_AGE_MS
+  ? Number(process.env.MAX_MESSAGE_AGE_MS)
+  : 15 * 60 * 1000;
+
+// Seen message IDs, oldest first
+const seen = new Map<string, SeenRow>();
+
+// Timestamp of the newest message processed per contact
+const latest = new Map<string, number>();
+
+// Seen IDs survive restarts only if DEDUPE_STORE=true
+const seenStore =
+  process.env.DEDUPE_STORE === "true"
+    ? createStore<SeenRow>("whatsapp_seen_messages", "message_id")
+    : null;
+
+export async function restoreSeenMessages(): Promise<number> {
+  if (!seenStore) return 0;
+
+  const expiredBefore = Date.now() - DEDUPE_TTL_MS;
+  const rows = (await seenStore.all()).sort((a, b) => a.seen_at - b.seen_at);
+  for (const row of rows) {
+    if (row.seen_at < expiredBefore) {
+      await seenStore.delete(row.message_id);
+      continue;
+    }
+    remember(row);
+  }
+  return seen.size;
+}
+
+function remember(row: SeenRow): void {
+  seen.set(row.message_id, row);
+  if (row.timestamp > (latest.get(row.contact_id) ?? 0)) {
+    latest.set(row.contact_id, row.timestamp);
+  }
+}
+
+function forget(messageId: string): void {
+  seen.delete(messageId);
+  seenStore?.delete(messageId).catch((error) => console.error("Failed to forget message:", error));
+}
+
+/** Drop IDs past the TTL, and the oldest ones beyond the size limit */
+function prune(): void {
+  const expiredBefore = Date.now() - DEDUPE_TTL_MS;
+  for (const [messageId, row] of seen) {
+    if (row.seen_at >= expiredBefore && seen.size <= MAX_SEEN_MESSAGES) break;
+    forget(messageId);
+  }
+}
+
+/**
+ * Decide whether an inbound webhook message should be processed. The ID is
+ * recorded before returning, so a retry of the same delivery (even one that
+ * arrives while the first is still running) is reported as a duplicate.
+ */
+export function checkInbound(message: ParsedMessage): InboundVerdict {
+  prune();
+  if (seen.has(message.messageId)) return "duplicate";
+
+  const row: SeenRow = {
+    message_id: message.messageId,
+    contact_id: message.from,
+    timestamp: message.timestamp ?? 0,
+    seen_at: Date.now(),
+  };
+  const newest = latest.get(message.from) ?? 0;
+  seen.set(row.message_id, row);
+  seenStore?.set(row.message_id, row).catch((error) => console.error("Failed to save message ID:", error));
+
+  if (!message.timestamp) return "new";
+  if (MAX_MESSAGE_AGE_MS > 0 && Date.now() - message.timestamp > MAX_MESSAGE_AGE_MS) {
+    return "stale";
+  }
+  // Sent before a message we already handled (timestamps have second resolution, so ties are fine)
+  if (message.timestamp < newest) return "out_of_order";
+
+  latest.set(message.from, message.timestamp);
+  return "new";
+}
+
+function formatTime(timestamp: number): string {
+  return new Date(timestamp).toLocaleTimeString("en-US", { hour: "2-digit", minute: "2-digit" });
+}
+
+/** Tell the user a message of theirs was skipped, so they can send it again */
+export async function reportSkipped(message: ParsedMessage, verdict: InboundVerdict): Promise<void> {
+  if (verdict === "new" || verdict === "duplicate" || !isAuthorized(message.from)) return;
+
+  const preview = message.text
+    ? ` "${message.text.length > 60 ? `${message.text.slice(0, 60)}...` : message.text}"`
+    : "";
+  const reason =
+    verdict === "stale"
+      ? `reached the server too late (sent at ${formatTime(message.timestamp!)})`
+      : "arrived after a newer one";
+  await sendWhatsAppMessage(
+    message.from,
+    `⏭️ Skipped your message${preview}: it ${reason}. Send it again if you still want it.`
+  );
+}
@@ -0,0 +1,91 @@
+import type { ClaudeAgentClient } from "./lib/claude-agent/index.js";
+import { sendWhatsAppDocument, sendWhatsAppMessage } from "./kapso.js";
+
+const WORKSPACE_DIR = "/home/user/workspace";
+
+// WhatsApp document size limit
+const MAX_DOCUMENT_BYTES = 100 * 1024 * 1024;
+
+// Document types WhatsApp accepts as-is; everything else is sent as plain text
+const DOCUMENT_MIME_TYPES: Record<string, string> = {
+  pdf: "application/pdf",
+  doc: "application/msword",
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  xls: "application/vnd.ms-excel",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  ppt: "application/vnd.ms-powerpoint",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+};
+
+function mimeTypeFor(filename: string): string {
+  const extension = filename.split(".").pop()?.toLowerCase() || "";
+  return DOCUMENT_MIME_TYPES[extension] || "text/plain";
+}
+
+/** Send a file from the workspace as a WhatsApp document (`/file <path>`) */
+export async function sendWorkspaceFile(
+  to: string,
+  client: ClaudeAgentClient,
+  path: string
+): Promise<void> {
+  const filename = path.split("/").pop() || path;
+
+  let content: Blob;
+  try {
+    content = (await client.readFile(path, "blob")) as Blob;
+  } catch {
+    await sendWhatsAppMessage(to, `File not found: \`${path}\``);
+    return;
+  }
+
+  if (content.size > MAX_DOCUMENT_BYTES) {
+    await sendWhatsAppMessage(to, `\`${filename}\` is too large to send (max 100 MB).`);
+    return;
+  }
+
+  await sendWhatsAppDocument(to, {
+    filename,
+    content,
+    mimeType: mimeTypeFor(filename),
+    caption: `📄 ${path}`,
+  });
+}
+
+/** Send the session's changes against the base branch as a .diff document (`/diff`) */
+export async function sendWorkspaceDiff(
+  to: string,
+  client: ClaudeAgentClient
+): Promise<void> {
+  // Diff against where the session branch started, including uncommitted work
+  const base = `$(git merge-base HEAD origin/HEAD 2>/dev/null || echo HEAD)`;
+  const diffResult = await client.runCommand(`cd ${WORKSPACE_DIR} && git diff ${base}`);
+
+  if (diffResult.exitCode !== 0) {
+    throw new Error(`git diff failed: ${diffResult.stderr}`);
+  }
+
+  if (!diffResult.stdout.trim()) {
+    await sendWhatsAppMessage(to, "No changes yet.");
+    return;
+  }
+
+  const statResult = await client.runCommand(`cd ${WORKSPACE_DIR} && git diff --shortstat ${base}`);
+  const branchResult = await client.runCommand(`cd ${WORKSPACE_DIR} && git branch --show-current`);
+  const branch = branchResult.stdout.trim() || "session";
+
+  await sendWhatsAppDocument(to, {
+    filename: `${branch.replace(/[^\w.-]/g, "-")}.diff`,
+    content: diffResult.stdout,
+    caption: `🔀 ${branch}\n${statResult.stdout.trim()}`,
+  });
+}
+
+/** Send a response too long for chat bubbles as a Markdown document with a preview */
+export async function sendLongResponse(to: string, content: string): Promise<void> {
+  const preview = content.slice(0, 900).trimEnd();
+  await sendWhatsAppDocument(to, {
+    filename: "response.md",
+    content,
+    caption: `${preview}…\n\n📄 Full response attached`,
+  });
+}
@@ -1,7 +1,242 @@
 const WHATSAPP_MAX_LENGTH = 4096;
 
+// Room kept in each chunk for the "(1/3)" marker, a re-opened code fence and
+// the session label added by callers
+const CHUNK_RESERVE = 64;
+
 type MessageCallback = (text: string) => Promise<void>;
 
+type OverflowOptions = {
+  /** Responses that would need more chunks than this are sent via `callback` instead */
+  maxChunks: number;
+  callback: MessageCallback;
+};
+
+// Markdown to WhatsApp
+
+// Tables wider than this (in characters) are sent as bullets instead of monospace
+const TABLE_MAX_WIDTH = 36;
+
+const FENCE = /^\s*(```|~~~)/;
+const TABLE_SEPARATOR = /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/;
+
+/** Convert inline markdown (emphasis, links, strikethrough) to WhatsApp formatting */
+function convertInline(text: string): string {
+  // Keep inline code as-is (WhatsApp renders `code` as monospace)
+  const code: string[] = [];
+  let result = text.replace(/`[^`\n]+`/g, (match) => `\u0000${code.push(match) - 1}\u0000`);
+
+  result = result
+    // Images and links: "text (url)"
+    .replace(/!\[([^\]]*)\]\(([^)\s]+)[^)]*\)/g, (_, alt: string, url: string) =>
+      alt ? `${alt} (${url})` : url
+    )
+    .replace(/\[([^\]]+)\]\(([^)\s]+)[^)]*\)/g, (_, label: string, url: string) =>
+      label === url ? url : `${label} (${url})`
+    )
+    // Bold is marked first so its asterisks aren't taken for italics
+    .replace(/\*\*(?=\S)(.+?)(?<=\S)\*\*/g, "\u0001$1\u0001")
+    .replace(/__(?=\S)(.+?)(?<=\S)__/g, "\u0001$1\u0001")
+    .replace(/(?<![\w*])\*(?=\S)(.+?)(?<=\S)\*(?![\w*])/g, "_$1_")
+    .replace(/~~(?=\S)(.+?)(?<=\S)~~/g, "~$1~")
+    .replace(/\u0001/g, "*");
+
+  return result.replace(/\u0000(\d+)\u0000/g, (_, index: string) => code[Number(index)]);
+}
+
+/** Inline markdown removed, for text inside monospace blocks */
+function stripInline(text: string): string {
+  return text
+    .replace(/!?\[([^\]]*)\]\([^)]*\)/g, "$1")
+    .replace(/(\*\*|__|~~|`)/g, "");
+}
+
+function splitRow(row: string): string[] {
+  return row
+    .trim()
+    .replace(/^\|/, "")
+    .replace(/\|$/, "")
+    .split("|")
+    .map((cell) => cell.trim());
+}
+
+/**
+ * A markdown table as an aligned monospace block, or as bullets (one per row,
+ * first column as the title) when it's too wide for a phone.
+ */
+function convertTable(lines: string[]): string {
+  const [header, ...body] = lines.filter((_, index) => index !== 1).map(splitRow);
+  const columns = header.length;
+  const widths = header.map((_, column) =>
+    Math.max(...[header, ...body].map((row) => stripInline(row[column] || "").length))
+  );
+
+  if (widths.reduce((sum, width) => sum + width, 0) + 3 * (columns - 1) <= TABLE_MAX_WIDTH) {
+    const format = (row: string[]) =>
+      widths.map((width, column) => stripInline(row[column] || "").padEnd(width)).join(" | ").trimEnd();
+    const separator = widths.map((width) => "-".repeat(width)).join("-|-");
+    return ["```", format(header), separator, ...body.map(format), "```"].join("\n");
+  }
+
+  return body
+    .map((row) => {
+      const details = header
+        .slice(1)
+        .map((name, column) => `  ${convertInline(name)}: ${convertInline(row[column + 1] || "")}`);
+      return [`• *${stripInline(row[0] || "")}*`, ...details].join("\n");
+    })
+    .join("\n");
+}
+
+/** Convert one line of markdown outside code blocks */
+function convertLine(line: string): string {
+  const heading = line.match(/^\s{0,3}#{1,6}\s+(.*?)[\s#]*$/);
+  if (heading) {
+    return `*${convertInline(heading[1].replace(/\*\*|__/g, ""))}*`;
+  }
+
+  if (/^\s{0,3}([-*_])(\s*\1){2,}\s*$/.test(line)) {
+    return "──────────";
+  }
+
+  const task = line.match(/^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/);
+  if (task) {
+    const indent = "  ".repeat(Math.floor(task[1].length / 2));
+    return `${indent}${task[2] === " " ? "▫️" : "✅"} ${convertInline(task[3])}`;
+  }
+
+  const bullet = line.match(/^(\s*)[-*+]\s+(.*)$/);
+  if (bullet) {
+    const level = Math.floor(bullet[1].length / 2);
+    return `${"  ".repeat(level)}${level === 0 ? "•" : "◦"} ${convertInline(bullet[2])}`;
+  }
+
+  const numbered = line.match(/^(\s*)(\d+)[.)]\s+(.*)$/);
+  if (numbered) {
+    return `${"  ".repeat(Math.floor(numbered[1].length / 2))}${numbered[2]}. ${convertInline(numbered[3])}`;
+  }
+
+  const quote = line.match(/^\s{0,3}>\s?(.*)$/);
+  if (quote) {
+    return `> ${convertInline(quote[1])}`;
+  }
+
+  return convertInline(line);
+}
+
+/**
+ * Convert GitHub markdown to WhatsApp formatting: headings and **bold** become
+ * *bold*, *italic* becomes _italic_, links become "text (url)", tables become
+ * monospace or bullets, and code fences lose their language tag.
+ */
+export function toWhatsApp(markdown: string): string {
+  const lines = markdown.split("\n");
+  const output: string[] = [];
+  let inFence = false;
+
+  for (let index = 0; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (FENCE.test(line)) {
+      inFence = !inFence;
+      output.push("```");
+      continue;
+    }
+    if (inFence) {
+      output.push(line);
+      continue;
+    }
+
+    // Table: a row followed by a |---|---| separator, up to the last row
+    if (line.trim().startsWith("|") && TABLE_SEPARATOR.test(lines[index + 1] || "")) {
+      let end = index + 2;
+      while (end < lines.length && lines[end].trim().startsWith("|")) end++;
+      output.push(convertTable(lines.slice(index, end)));
+      index = end - 1;
+      continue;
+    }
+
+    output.push(convertLine(line));
+  }
+
+  // Close a fence Claude left open, so the rest isn't all monospace
+  if (inFence) output.push("```");
+  return output.join("\n");
+}
+
+/** Whether `index` in `text` falls inside a ``` block */
+function isInsideFence(text: string, index: number): boolean {
+  return (text.slice(0, index).match(/```/g)?.length ?? 0) % 2 === 1;
+}
+
+/** Where to cut `text` so the first part fits in `room` characters */
+function findBreakPoint(text: string, room: number): number {
+  // Last `separator` within room, skipping those inside code blocks unless `inCode`
+  const lastBreak = (separator: string, inCode = false) => {
+    let index = text.lastIndexOf(separator, room);
+    while (!inCode && index > 0 && isInsideFence(text, index)) {
+      index = text.lastIndexOf(separator, index - 1);
+    }
+    return index;
+  };
+
+  // Paragraph, line or sentence outside code blocks
+  const paragraphBreak = lastBreak("\n\n");
+  if (paragraphBreak > room / 2) return paragraphBreak;
+  const lineBreak = lastBreak("\n");
+  if (lineBreak > room / 2) return lineBreak;
+  const sentenceBreak = lastBreak(". ");
+  if (sentenceBreak > room / 2) return sentenceBreak + 1;
+
+  // Before a code block that doesn't fit, rather than inside it
+  const fenceStart = text.lastIndexOf("```", room);
+  if (fenceStart > room / 2 && isInsideFence(text, fenceStart + 3)) return fenceStart;
+
+  // Inside a long code block (the fence is re-opened in the next chunk), or at a word
+  const codeLineBreak = lastBreak("\n", true);
+  if (codeLineBreak > room / 2) return codeLineBreak;
+  const wordBreak = text.lastIndexOf(" ", room);
+  return wordBreak > room / 2 ? wordBreak : room;
+}
+
+/**
+ * Split text into WhatsApp messages of at most `maxLength` characters.
+ * Code blocks cut between messages are closed and re-opened, and parts are
+ * numbered "(1/3)".
+ */
+export function splitMessage(text: string, maxLength = WHATSAPP_MAX_LENGTH): string[] {
+  if (text.length <= maxLength) {
+    return [text];
+  }
+
+  const room = Math.max(maxLength - CHUNK_RESERVE, maxLength / 2);
+  const chunks: string[] = [];
+  let remaining = text;
+
+  while (remaining.length > 0) {
+    if (remaining.length <= room) {
+      chunks.push(remaining);
+      break;
+    }
+
+    const breakPoint = findBreakPoint(remaining, room);
+    const inCode = isInsideFence(remaining, breakPoint);
+    const chunk = remaining.slice(0, breakPoint).trimEnd();
+    const rest = remaining.slice(breakPoint);
+
+    if (inCode) {
+      // Close the block here and re-open it in the next chunk, keeping indentation
+      chunks.push(`${chunk}\n\`\`\``);
+      remaining = `\`\`\`\n${rest.replace(/^\n/, "")}`;
+    } else {
+      chunks.push(chunk);
+      remaining = rest.trim();
+    }
+  }
+
+  return chunks.map((chunk, index) => `${chunk}\n(${index + 1}/${chunks.length})`);
+}
+
 /**
  * Buffer for batching Claude responses before sending to WhatsApp.
  * Collects text and sends it in coherent chunks.
@@ -11,10 +246,14 @@ export class MessageBuffer {
   private callback: MessageCallback;
   private debounceTimer: ReturnType<typeof setTimeout> | null = null;
   private debounceMs: number;
+  private overflow?: OverflowOptions;
+  // Flushes in progress, chained to keep their order
+  private sending: Promise<void> = Promise.resolve();
 
-  constructor(callback: MessageCallback, debounceMs = 2000) {
+  constructor(callback: MessageCallback, debounceMs = 2000, overflow?: OverflowOptions) {
     this.callback = callback;
     this.debounceMs = debounceMs;
+    this.overflow = overflow;
   }
 
   append(text: string): void {
@@ -33,10 +272,14 @@ export class MessageBuffer {
   private async flushIfSignificant(): Promise<void> {
     const content = this.buffer.join("\n").trim();
     if (content.length > 50) {
-      await this.flush();
+      await this.flush().catch((error) => console.error("Failed to send message:", error));
     }
   }
 
+  /**
+   * Send everything buffered. Flushes are sent one after another, so chunks
+   * arrive in order.
+   */
   async flush(): Promise<void> {
     if (this.debounceTimer) {
       clearTimeout(this.debounceTimer);
@@ -48,8 +291,23 @@ export class MessageBuffer {
 
     if (!content) return;
 
+    const send = this.sending.catch(() => {}).then(() => this.send(content));
+    this.sending = send;
+    return send;
+  }
+
+  private async send(content: string): Promise<void> {
     // Split into WhatsApp-compatible chunks
-    const chunks = this.splitIntoChunks(content);
+    const chunks = splitMessage(toWhatsApp(content));
+
+    // Too long for chat bubbles - hand the whole response off (e.g. as a document)
+    if (this.overflow && chunks.length > this.overflow.maxChunks) {
+      await this.overflow.callback(content);
+      return;
+    }
+
+    // A chunk that can't be sent (after the outbound queue's retries) stops
+    // the rest, so no part arrives out of order
     for (const chunk of chunks) {
       await this.callback(chunk);
     }
@@ -65,46 +323,4 @@ export class MessageBuffer {
     this.buffer = [];
     return content;
   }
-
-  private splitIntoChunks(text: string): string[] {
-    if (text.length <= WHATSAPP_MAX_LENGTH) {
-      return [text];
-    }
-
-    const chunks: string[] = [];
-    let remaining = text;
-
-    while (remaining.length > 0) {
-      if (remaining.length <= WHATSAPP_MAX_LENGTH) {
-        chunks.push(remaining);
-        break;
-      }
-
-      // Find a good break point
-      let breakPoint = WHATSAPP_MAX_LENGTH;
-
-      // Try to break at paragraph
-      const paragraphBreak = remaining.lastIndexOf("\n\n", WHATSAPP_MAX_LENGTH);
-      if (paragraphBreak > WHATSAPP_MAX_LENGTH / 2) {
-        breakPoint = paragraphBreak;
-      } else {
-        // Try to break at line
-        const lineBreak = remaining.lastIndexOf("\n", WHATSAPP_MAX_LENGTH);
-        if (lineBreak > WHATSAPP_MAX_LENGTH / 2) {
-          breakPoint = lineBreak;
-        } else {
-          // Try to break at sentence
-          const sentenceBreak = remaining.lastIndexOf(". ", WHATSAPP_MAX_LENGTH);
-          if (sentenceBreak > WHATSAPP_MAX_LENGTH / 2) {
-            breakPoint = sentenceBreak + 1;
-          }
-        }
-      }
-
-      chunks.push(remaining.slice(0, breakPoint).trim());
-      remaining = remaining.slice(breakPoint).trim();
-    }
-
-    return chunks;
-  }
 }
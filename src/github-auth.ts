@@ -0,0 +1,284 @@
+import crypto from "crypto";
+import { sendWhatsAppMessage } from "./kapso.js";
+import { createStore } from "./store.js";
+
+const GITHUB_API = "https://api.github.com";
+const GITHUB_LOGIN = "https://github.com/login";
+
+// Scopes needed to list repos, clone/push and open PRs
+const OAUTH_SCOPES = "repo read:user user:email";
+
+export type GitHubIdentity = {
+  login: string;
+  name: string;
+  email: string;
+  token: string;
+};
+
+type IdentityRow = {
+  contact_id: string;
+  login: string;
+  name: string;
+  email: string;
+  /** AES-256-GCM encrypted access token: iv.tag.ciphertext (base64) */
+  token: string;
+  updated_at: string;
+};
+
+// Decrypted identities, loaded on boot
+const identities = new Map<string, GitHubIdentity>();
+
+// Contacts with a device flow in progress
+const pendingLogins = new Set<string>();
+
+const identityStore = createStore<IdentityRow>("whatsapp_github_identities", "contact_id");
+
+// Token encryption
+
+function getEncryptionKey(): Buffer {
+  const secret = process.env.TOKEN_ENCRYPTION_KEY;
+  if (!secret) {
+    throw new Error("TOKEN_ENCRYPTION_KEY is required to store GitHub tokens");
+  }
+  return crypto.createHash("sha256").update(secret).digest();
+}
+
+function encryptToken(token: string): string {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const encrypted = Buffer.concat([cipher.update(token, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), encrypted].map((part) => part.toString("base64")).join(".");
+}
+
+function decryptToken(value: string): string {
+  const [iv, tag, encrypted] = value.split(".").map((part) => Buffer.from(part, "base64"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(encrypted), decipher.final()]).toString("utf8");
+}
+
+export async function restoreIdentities(): Promise<number> {
+  if (!process.env.TOKEN_ENCRYPTION_KEY) return 0;
+
+  const rows = await identityStore.all();
+  for (const row of rows) {
+    try {
+      identities.set(row.contact_id, {
+        login: row.login,
+        name: row.name,
+        email: row.email,
+        token: decryptToken(row.token),
+      });
+    } catch {
+      console.warn(`Could not decrypt GitHub token for ${row.contact_id}`);
+    }
+  }
+  return identities.size;
+}
+
+/** Get the GitHub identity a contact logged in with, if any */
+export function getGitHubIdentity(contactId: string): GitHubIdentity | null {
+  return identities.get(contactId) ?? null;
+}
+
+/** Find the contact that logged in as a GitHub user, if any */
+export function findContactByGitHubLogin(login: string): string | null {
+  for (const [contactId, identity] of identities) {
+    if (identity.login.toLowerCase() === login.toLowerCase()) return contactId;
+  }
+  return null;
+}
+
+// GitHub OAuth device flow
+
+async function githubPost<T>(path: string, body: Record<string, string>): Promise<T> {
+  const response = await fetch(`${GITHUB_LOGIN}${path}`, {
+    method: "POST",
+    headers: {
+      Accept: "application/json",
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`GitHub login error: ${error}`);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+async function githubGet<T>(path: string, token: string): Promise<T> {
+  const response = await fetch(`${GITHUB_API}${path}`, {
+    headers: {
+      Authorization: `Bearer ${token}`,
+      Accept: "application/vnd.github+json",
+      "X-GitHub-Api-Version": "2022-11-28",
+    },
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`GitHub API error: ${error}`);
+  }
+
+  return response.json() as Promise<T>;
+}
+
+/** Look up the name and commit email for a token's user */
+async function fetchIdentity(token: string): Promise<GitHubIdentity> {
+  const user = await githubGet<{ id: number; login: string; name: string | null }>("/user", token);
+
+  let email = `${user.id}+${user.login}@users.noreply.github.com`;
+  try {
+    const emails = await githubGet<Array<{ email: string; primary: boolean; verified: boolean }>>(
+      "/user/emails",
+      token
+    );
+    email = emails.find((e) => e.primary && e.verified)?.email || email;
+  } catch {
+    // Keep the noreply address if emails aren't readable
+  }
+
+  return { login: user.login, name: user.name || user.login, email, token };
+}
+
+async function pollForToken(
+  clientId: string,
+  deviceCode: string,
+  intervalSeconds: number,
+  expiresAt: number
+): Promise<string> {
+  let interval = intervalSeconds;
+
+  while (Date.now() < expiresAt) {
+    await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+
+    const result = await githubPost<{
+      access_token?: string;
+      error?: string;
+      error_description?: string;
+      interval?: number;
+    }>("/oauth/access_token", {
+      client_id: clientId,
+      device_code: deviceCode,
+      grant_type: "urn:ietf:params:oauth:grant-type:device_code",
+    });
+
+    if (result.access_token) return result.access_token;
+
+    switch (result.error) {
+      case "authorization_pending":
+        break;
+      case "slow_down":
+        interval = result.interval || interval + 5;
+        break;
+      case "expired_token":
+        throw new Error("The login code expired. Send /login to try again.");
+      case "access_denied":
+        throw new Error("Login was cancelled.");
+      default:
+        throw new Error(result.error_description || result.error || "Unknown login error");
+    }
+  }
+
+  throw new Error("The login code expired. Send /login to try again.");
+}
+
+async function login(contactId: string): Promise<void> {
+  const clientId = process.env.GITHUB_CLIENT_ID;
+  if (!clientId || !process.env.TOKEN_ENCRYPTION_KEY) {
+    await sendWhatsAppMessage(
+      contactId,
+      "GitHub login isn't configured on this server (GITHUB_CLIENT_ID and TOKEN_ENCRYPTION_KEY)."
+    );
+    return;
+  }
+
+  if (pendingLogins.has(contactId)) {
+    await sendWhatsAppMessage(contactId, "A login is already in progress. Enter the code sent earlier.");
+    return;
+  }
+
+  pendingLogins.add(contactId);
+  try {
+    const device = await githubPost<{
+      device_code: string;
+      user_code: string;
+      verification_uri: string;
+      expires_in: number;
+      interval: number;
+    }>("/device/code", { client_id: clientId, scope: OAUTH_SCOPES });
+
+    await sendWhatsAppMessage(
+      contactId,
+      `🔑 Sign in to GitHub\n──────────\n1. Open ${device.verification_uri}\n2. Enter code: *${device.user_code}*\n\nThe code expires in ${Math.round(device.expires_in / 60)} minutes.`
+    );
+
+    const token = await pollForToken(
+      clientId,
+      device.device_code,
+      device.interval,
+      Date.now() + device.expires_in * 1000
+    );
+
+    const identity = await fetchIdentity(token);
+    await identityStore.set(contactId, {
+      contact_id: contactId,
+      login: identity.login,
+      name: identity.name,
+      email: identity.email,
+      token: encryptToken(token),
+      updated_at: new Date().toISOString(),
+    });
+    identities.set(contactId, identity);
+
+    await sendWhatsAppMessage(
+      contactId,
+      `Logged in as @${identity.login} ✅\nNew sessions will use your GitHub account and commit as ${identity.name} <${identity.email}>.`
+    );
+  } finally {
+    pendingLogins.delete(contactId);
+  }
+}
+
+async function logout(contactId: string): Promise<void> {
+  const identity = identities.get(contactId);
+  if (!identity) {
+    await sendWhatsAppMessage(contactId, "You're not logged in to GitHub.");
+    return;
+  }
+
+  await identityStore.delete(contactId);
+  identities.delete(contactId);
+  await sendWhatsAppMessage(
+    contactId,
+    `Logged out @${identity.login} ✅\nNew sessions will use the server's GitHub token.`
+  );
+}
+
+/**
+ * Handle /login and /logout. Returns false if `text` isn't a GitHub auth command.
+ * The device flow keeps polling in the background after this returns.
+ */
+export async function handleGitHubAuthCommand(contactId: string, text: string): Promise<boolean> {
+  const command = text.trim().toLowerCase();
+
+  if (command === "/logout") {
+    await logout(contactId);
+    return true;
+  }
+
+  if (command !== "/login") {
+    return false;
+  }
+
+  login(contactId).catch(async (error) => {
+    console.error("Error during GitHub login:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    await sendWhatsAppMessage(contactId, `GitHub login failed: ${errorMessage.slice(0, 200)}`).catch(() => {});
+  });
+  return true;
+}
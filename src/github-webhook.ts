@@ -0,0 +1,294 @@
+import crypto from "crypto";
+import { sendInteractiveButtons, sendWhatsAppMessage } from "./kapso.js";
+import { canAccessRepo, isAuthorized } from "./access.js";
+import { findContactByGitHubLogin, getGitHubIdentity } from "./github-auth.js";
+import { isBranchProtected } from "./github.js";
+import { getPullRequestContact } from "./pull-requests.js";
+
+const WORK_PREFIX = "gh_work:";
+const IGNORE_PREFIX = "gh_ignore:";
+
+// Mention that asks Claude to pick up a PR review comment
+const MENTION = /(^|\s)@claude\b/i;
+
+const FAILED_CONCLUSIONS = ["failure", "timed_out", "action_required"];
+
+/** Work offered to a contact from a GitHub event */
+export type GitHubTask = {
+  repo: string;
+  title: string;
+  url: string;
+  /**
+   * Existing branch to work on (the PR's branch). A new branch is created when
+   * unset, or when the branch turns out to be protected
+   */
+  branch?: string;
+  /** Prompt sent to Claude when the contact accepts */
+  task: string;
+};
+
+// Offers waiting for "Work on this" / "Ignore" (GitHub sends new events after a restart)
+const offers = new Map<string, { contactId: string; task: GitHubTask; createdAt: number }>();
+
+// Unanswered offers expire after this long, and the oldest go beyond MAX_OFFERS
+const OFFER_TTL_MS = 3 * 24 * 60 * 60 * 1000;
+const MAX_OFFERS = 500;
+
+function pruneOffers(): void {
+  const expiredBefore = Date.now() - OFFER_TTL_MS;
+  // Oldest first (insertion order)
+  for (const [id, offer] of offers) {
+    if (offer.createdAt >= expiredBefore && offers.size <= MAX_OFFERS) break;
+    offers.delete(id);
+  }
+}
+
+type GitHubUser = { login: string };
+
+export type GitHubWebhookPayload = {
+  action?: string;
+  repository?: { full_name: string };
+  assignee?: GitHubUser;
+  issue?: {
+    number: number;
+    title: string;
+    body: string | null;
+    html_url: string;
+  };
+  pull_request?: {
+    number: number;
+    title: string;
+    html_url: string;
+    head: { ref: string; repo: { full_name: string } | null };
+  };
+  comment?: {
+    body: string;
+    html_url: string;
+    path?: string;
+    line?: number | null;
+    diff_hunk?: string;
+    user: GitHubUser;
+  };
+  check_run?: {
+    name: string;
+    conclusion: string | null;
+    html_url: string;
+    head_sha: string;
+    output?: { title: string | null; summary: string | null };
+    pull_requests: Array<{ number: number; head: { ref: string } }>;
+  };
+};
+
+// Signature verification (X-Hub-Signature-256: sha256=<hex>)
+
+export function verifyGitHubSignature(payload: string, signature: string): boolean {
+  const expectedSignature =
+    "sha256=" +
+    crypto
+      .createHmac("sha256", process.env.GITHUB_WEBHOOK_SECRET || "")
+      .update(payload)
+      .digest("hex");
+
+  try {
+    return crypto.timingSafeEqual(
+      Buffer.from(signature),
+      Buffer.from(expectedSignature)
+    );
+  } catch {
+    return false;
+  }
+}
+
+// Contact mapping
+
+/** GITHUB_CONTACTS maps GitHub logins to phone numbers: "alice:5215512345678,bob:..." */
+function getConfiguredContacts(): Map<string, string> {
+  const contacts = new Map<string, string>();
+  for (const entry of (process.env.GITHUB_CONTACTS || "").split(",")) {
+    const [login, phone] = entry.split(":").map((part) => part.trim());
+    if (login && phone) {
+      contacts.set(login.toLowerCase(), phone.replace(/\D/g, ""));
+    }
+  }
+  return contacts;
+}
+
+/** The WhatsApp contact for a GitHub user: GITHUB_CONTACTS first, then /login identities */
+function findContact(login: string): string | null {
+  return getConfiguredContacts().get(login.toLowerCase()) || findContactByGitHubLogin(login);
+}
+
+// Events
+
+function excerpt(text: string | null | undefined, maxLength: number): string {
+  const trimmed = (text || "").trim();
+  return trimmed.length > maxLength ? `${trimmed.slice(0, maxLength)}...` : trimmed;
+}
+
+/** Turn a webhook event into an offer for a contact, or null if it isn't one we act on */
+function toOffer(
+  event: string,
+  payload: GitHubWebhookPayload
+): { contactId: string; header: string; body: string; task: GitHubTask } | null {
+  const repo = payload.repository?.full_name;
+  if (!repo) return null;
+
+  // Issue assigned to a mapped user
+  if (event === "issues" && payload.action === "assigned" && payload.issue && payload.assignee) {
+    const { issue } = payload;
+    const contactId = findContact(payload.assignee.login);
+    if (!contactId) return null;
+
+    return {
+      contactId,
+      header: "Issue assigned",
+      body: `📌 ${repo}#${issue.number}\n${issue.title}\n\n${excerpt(issue.body, 600) || "_No description_"}`,
+      task: {
+        repo,
+        title: `#${issue.number} ${issue.title}`,
+        url: issue.html_url,
+        task: `Work on GitHub issue ${repo}#${issue.number}: ${issue.title}\n${issue.html_url}\n\n${issue.body || ""}`.trim(),
+      },
+    };
+  }
+
+  // "@claude" in a PR review comment, sent to whoever wrote it
+  if (
+    event === "pull_request_review_comment" &&
+    payload.action === "created" &&
+    payload.comment &&
+    payload.pull_request &&
+    MENTION.test(payload.comment.body)
+  ) {
+    const { comment, pull_request: pr } = payload;
+    const contactId = findContact(comment.user.login);
+    if (!contactId) return null;
+
+    const location = comment.path ? `${comment.path}${comment.line ? `:${comment.line}` : ""}` : "";
+    return {
+      contactId,
+      header: "Review comment",
+      body: `💬 ${repo}#${pr.number}${location ? ` · ${location}` : ""}\n\n${excerpt(comment.body, 600)}`,
+      task: {
+        repo,
+        title: `#${pr.number} review comment`,
+        url: comment.html_url,
+        // Fork branches can't be pushed to, so those get a new branch
+        branch: pr.head.repo?.full_name === repo ? pr.head.ref : undefined,
+        task: [
+          `Address this review comment on ${repo}#${pr.number} (${pr.title}), branch \`${pr.head.ref}\`.`,
+          comment.html_url,
+          location && `File: ${location}`,
+          comment.diff_hunk && `\`\`\`diff\n${comment.diff_hunk}\n\`\`\``,
+          comment.body,
+        ]
+          .filter(Boolean)
+          .join("\n\n"),
+      },
+    };
+  }
+
+  // Failed check run on a PR opened with /pr
+  if (
+    event === "check_run" &&
+    payload.action === "completed" &&
+    payload.check_run &&
+    FAILED_CONCLUSIONS.includes(payload.check_run.conclusion || "")
+  ) {
+    const run = payload.check_run;
+    const pr = run.pull_requests[0];
+    const contactId = pr && getPullRequestContact(repo, pr.number);
+    if (!contactId) return null;
+
+    const output = [run.output?.title, run.output?.summary].filter(Boolean).join("\n");
+    return {
+      contactId,
+      header: "Check failed",
+      body: `❌ ${run.name} · ${run.conclusion}\n📁 ${repo}#${pr.number}\n🔀 ${pr.head.ref}${output ? `\n\n${excerpt(output, 600)}` : ""}`,
+      task: {
+        repo,
+        title: `#${pr.number} ${run.name} failed`,
+        url: run.html_url,
+        branch: pr.head.ref,
+        task: `The "${run.name}" check failed (${run.conclusion}) on ${repo}#${pr.number}, branch \`${pr.head.ref}\`, commit ${run.head_sha}.\n${run.html_url}\n\nFind the cause and fix it.${output ? `\n\n${output}` : ""}`,
+      },
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Handle a GitHub webhook delivery. Events we act on are offered to the mapped
+ * WhatsApp contact with "Work on this" / "Ignore" buttons.
+ */
+export async function handleGitHubEvent(
+  event: string,
+  deliveryId: string,
+  payload: GitHubWebhookPayload
+): Promise<void> {
+  const offer = toOffer(event, payload);
+  if (!offer) return;
+
+  const { contactId, header, body, task } = offer;
+  if (!isAuthorized(contactId) || !canAccessRepo(contactId, task.repo)) {
+    console.warn(`Skipping GitHub ${event} for ${contactId}: no access to ${task.repo}`);
+    return;
+  }
+
+  const id = deliveryId || crypto.randomUUID();
+  offers.set(id, { contactId, task, createdAt: Date.now() });
+  pruneOffers();
+
+  await sendInteractiveButtons(contactId, {
+    header,
+    body: `${body.slice(0, 900)}\n\n🔗 ${task.url}`,
+    footer: "Powered by Kapso",
+    buttons: [
+      { id: `${WORK_PREFIX}${id}`, title: "Work on this" },
+      { id: `${IGNORE_PREFIX}${id}`, title: "Ignore" },
+    ],
+  });
+}
+
+// Offer buttons
+
+export function isGitHubTaskButton(buttonId: string | undefined): boolean {
+  return buttonId?.startsWith(WORK_PREFIX) || buttonId?.startsWith(IGNORE_PREFIX) || false;
+}
+
+/**
+ * Handle "Work on this" / "Ignore". Returns the task to start a new session
+ * with, or null if there's nothing to start.
+ */
+export async function handleGitHubTaskButton(
+  contactId: string,
+  buttonId: string
+): Promise<GitHubTask | null> {
+  const accepted = buttonId.startsWith(WORK_PREFIX);
+  const id = buttonId.slice((accepted ? WORK_PREFIX : IGNORE_PREFIX).length);
+  pruneOffers();
+  const offer = offers.get(id);
+
+  if (offer?.contactId !== contactId) {
+    await sendWhatsAppMessage(contactId, "This request has expired.");
+    return null;
+  }
+
+  if (!accepted) {
+    offers.delete(id);
+    await sendWhatsAppMessage(contactId, `Ignored ${offer.task.title}`);
+    return null;
+  }
+
+  offers.delete(id);
+
+  // Like the branch picker: protected branches (e.g. a PR from main) get a new branch instead
+  const { task } = offer;
+  const token = getGitHubIdentity(contactId)?.token || process.env.GITHUB_TOKEN!;
+  if (task.branch && (await isBranchProtected(token, task.repo, task.branch))) {
+    await sendWhatsAppMessage(contactId, `\`${task.branch}\` is protected, so Claude will work on a new branch.`);
+    return { ...task, branch: undefined };
+  }
+  return task;
+}
@@ -7,12 +7,30 @@ export type GitHubRepo = {
   private: boolean;
 };
 
-export async function fetchAccessibleRepos(): Promise<GitHubRepo[]> {
-  const token = process.env.GITHUB_TOKEN;
+// Repo lists per token, so paging and searching don't refetch every time
+const repoCache = new Map<string, { repos: GitHubRepo[]; expiresAt: number }>();
+
+const REPO_CACHE_TTL_MS = Number(process.env.REPO_CACHE_TTL_MS) || 5 * 60 * 1000;
+
+/** List repos the token can push to. Defaults to the server's GITHUB_TOKEN */
+export async function fetchAccessibleRepos(
+  token = process.env.GITHUB_TOKEN
+): Promise<GitHubRepo[]> {
   if (!token) {
     throw new Error("GITHUB_TOKEN is required");
   }
 
+  const cached = repoCache.get(token);
+  if (cached && cached.expiresAt > Date.now()) {
+    return cached.repos;
+  }
+
+  const repos = await fetchAllRepos(token);
+  repoCache.set(token, { repos, expiresAt: Date.now() + REPO_CACHE_TTL_MS });
+  return repos;
+}
+
+async function fetchAllRepos(token: string): Promise<GitHubRepo[]> {
   const repos: GitHubRepo[] = [];
   let page = 1;
   const perPage = 100;
@@ -62,3 +80,294 @@ export async function fetchAccessibleRepos(): Promise<GitHubRepo[]> {
 
   return repos;
 }
+
+// Pull requests
+
+export type PullRequest = {
+  number: number;
+  nodeId: string;
+  url: string;
+  title: string;
+  state: "open" | "closed";
+  merged: boolean;
+  draft: boolean;
+  headSha: string;
+  headRef: string;
+  baseRef: string;
+  changedFiles: number;
+  additions: number;
+  deletions: number;
+};
+
+type GitHubPullResponse = {
+  number: number;
+  node_id: string;
+  html_url: string;
+  title: string;
+  state: "open" | "closed";
+  merged?: boolean;
+  draft?: boolean;
+  head: { sha: string; ref: string; repo?: { full_name: string } | null };
+  base: { ref: string };
+  changed_files?: number;
+  additions?: number;
+  deletions?: number;
+};
+
+function toPullRequest(data: GitHubPullResponse): PullRequest {
+  return {
+    number: data.number,
+    nodeId: data.node_id,
+    url: data.html_url,
+    title: data.title,
+    state: data.state,
+    merged: data.merged ?? false,
+    draft: data.draft ?? false,
+    headSha: data.head.sha,
+    headRef: data.head.ref,
+    baseRef: data.base.ref,
+    changedFiles: data.changed_files ?? 0,
+    additions: data.additions ?? 0,
+    deletions: data.deletions ?? 0,
+  };
+}
+
+async function githubRequest<T>(
+  path: string,
+  token: string,
+  init: { method?: string; body?: unknown } = {}
+): Promise<T> {
+  const response = await fetch(`${GITHUB_API}${path}`, {
+    method: init.method || "GET",
+    headers: {
+      Authorization: `Bearer ${token}`,
+      Accept: "application/vnd.github+json",
+      "X-GitHub-Api-Version": "2022-11-28",
+      ...(init.body ? { "Content-Type": "application/json" } : {}),
+    },
+    body: init.body ? JSON.stringify(init.body) : undefined,
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`GitHub API error: ${error}`);
+  }
+
+  return (response.status === 204 ? undefined : await response.json()) as T;
+}
+
+/** Every page of a list endpoint (`path` without paging parameters) */
+async function githubRequestAll<T>(path: string, token: string): Promise<T[]> {
+  const items: T[] = [];
+  const perPage = 100;
+  const separator = path.includes("?") ? "&" : "?";
+
+  for (let page = 1; ; page++) {
+    const data = await githubRequest<T[]>(`${path}${separator}per_page=${perPage}&page=${page}`, token);
+    items.push(...data);
+    if (data.length < perPage) return items;
+  }
+}
+
+export async function getDefaultBranch(token: string, repo: string): Promise<string> {
+  const data = await githubRequest<{ default_branch: string }>(`/repos/${repo}`, token);
+  return data.default_branch;
+}
+
+export async function getPullRequest(
+  token: string,
+  repo: string,
+  number: number
+): Promise<PullRequest> {
+  return toPullRequest(await githubRequest<GitHubPullResponse>(`/repos/${repo}/pulls/${number}`, token));
+}
+
+/** Find the open PR for a branch, if there is one */
+export async function findPullRequestForBranch(
+  token: string,
+  repo: string,
+  branch: string
+): Promise<PullRequest | null> {
+  const owner = repo.split("/")[0];
+  const data = await githubRequest<GitHubPullResponse[]>(
+    `/repos/${repo}/pulls?state=open&head=${encodeURIComponent(`${owner}:${branch}`)}`,
+    token
+  );
+  // The list endpoint omits diff stats, so fetch the full PR
+  return data[0] ? getPullRequest(token, repo, data[0].number) : null;
+}
+
+/** Open PRs whose branch lives in the repo itself (fork PRs can't be checked out and pushed) */
+export async function listOpenPullRequests(token: string, repo: string): Promise<PullRequest[]> {
+  const data = await githubRequest<GitHubPullResponse[]>(
+    `/repos/${repo}/pulls?state=open&sort=updated&direction=desc&per_page=100`,
+    token
+  );
+  return data.filter((pr) => pr.head.repo?.full_name === repo).map(toPullRequest);
+}
+
+/** Open a pull request. Falls back to a regular PR where drafts aren't available */
+export async function createPullRequest(
+  token: string,
+  repo: string,
+  options: { head: string; base: string; title: string; body: string; draft?: boolean }
+): Promise<PullRequest> {
+  const create = (draft: boolean) =>
+    githubRequest<GitHubPullResponse>(`/repos/${repo}/pulls`, token, {
+      method: "POST",
+      body: { ...options, draft },
+    });
+
+  let created: GitHubPullResponse;
+  try {
+    created = await create(options.draft ?? false);
+  } catch (error) {
+    if (!options.draft || !(error instanceof Error && /draft/i.test(error.message))) {
+      throw error;
+    }
+    created = await create(false);
+  }
+
+  // The create response doesn't always include diff stats yet
+  return getPullRequest(token, repo, created.number);
+}
+
+export async function markPullRequestReady(token: string, nodeId: string): Promise<void> {
+  // Only available through GraphQL
+  const result = await githubRequest<{ errors?: Array<{ message: string }> }>("/graphql", token, {
+    method: "POST",
+    body: {
+      query: `mutation($id: ID!) { markPullRequestReadyForReview(input: { pullRequestId: $id }) { clientMutationId } }`,
+      variables: { id: nodeId },
+    },
+  });
+  if (result.errors?.length) {
+    throw new Error(`GitHub API error: ${result.errors[0].message}`);
+  }
+}
+
+export async function requestReviewers(
+  token: string,
+  repo: string,
+  number: number,
+  reviewers: string[]
+): Promise<void> {
+  await githubRequest(`/repos/${repo}/pulls/${number}/requested_reviewers`, token, {
+    method: "POST",
+    body: { reviewers },
+  });
+}
+
+export async function closePullRequest(
+  token: string,
+  repo: string,
+  number: number
+): Promise<void> {
+  await githubRequest(`/repos/${repo}/pulls/${number}`, token, {
+    method: "PATCH",
+    body: { state: "closed" },
+  });
+}
+
+export type CheckRun = {
+  name: string;
+  status: "queued" | "in_progress" | "completed";
+  conclusion: string | null;
+  url: string;
+};
+
+export async function listCheckRuns(
+  token: string,
+  repo: string,
+  sha: string
+): Promise<CheckRun[]> {
+  const data = await githubRequest<{
+    check_runs: Array<{ name: string; status: CheckRun["status"]; conclusion: string | null; html_url: string }>;
+  }>(`/repos/${repo}/commits/${sha}/check-runs?per_page=100`, token);
+
+  return data.check_runs.map((run) => ({
+    name: run.name,
+    status: run.status,
+    conclusion: run.conclusion,
+    url: run.html_url,
+  }));
+}
+
+export type PullRequestComment = {
+  id: number;
+  author: string;
+  body: string;
+  url: string;
+  createdAt: string;
+  kind: "comment" | "review" | "review_comment";
+  /** For reviews: APPROVED, CHANGES_REQUESTED or COMMENTED */
+  state?: string;
+};
+
+/**
+ * Conversation comments, reviews and inline review comments on a PR, oldest
+ * first. With `since` (ISO timestamp), comments not updated since then are
+ * skipped (reviews can't be filtered, so all of them are returned).
+ */
+export async function listPullRequestComments(
+  token: string,
+  repo: string,
+  number: number,
+  since?: string
+): Promise<PullRequestComment[]> {
+  type Comment = { id: number; user: { login: string }; body: string; html_url: string; created_at: string };
+  type Review = { id: number; user: { login: string }; body: string; html_url: string; submitted_at: string; state: string };
+
+  const filter = since ? `?since=${encodeURIComponent(since)}` : "";
+  const [comments, reviews, reviewComments] = await Promise.all([
+    githubRequestAll<Comment>(`/repos/${repo}/issues/${number}/comments${filter}`, token),
+    githubRequestAll<Review>(`/repos/${repo}/pulls/${number}/reviews`, token),
+    githubRequestAll<Comment>(`/repos/${repo}/pulls/${number}/comments${filter}`, token),
+  ]);
+
+  return [
+    ...comments.map((c) => ({ id: c.id, author: c.user.login, body: c.body, url: c.html_url, createdAt: c.created_at, kind: "comment" as const })),
+    ...reviews
+      .filter((r) => r.state !== "PENDING")
+      .map((r) => ({ id: r.id, author: r.user.login, body: r.body, url: r.html_url, createdAt: r.submitted_at, kind: "review" as const, state: r.state })),
+    ...reviewComments.map((c) => ({ id: c.id, author: c.user.login, body: c.body, url: c.html_url, createdAt: c.created_at, kind: "review_comment" as const })),
+  ].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+}
+
+/** Login of the user a token belongs to */
+export async function getAuthenticatedLogin(token: string): Promise<string> {
+  const data = await githubRequest<{ login: string }>("/user", token);
+  return data.login;
+}
+
+// Branches
+
+export type Branch = {
+  name: string;
+  protected: boolean;
+};
+
+/** Whether a branch is protected (and so can't be pushed to) */
+export async function isBranchProtected(token: string, repo: string, branch: string): Promise<boolean> {
+  const data = await githubRequest<{ protected: boolean }>(
+    `/repos/${repo}/branches/${encodeURIComponent(branch)}`,
+    token
+  );
+  return data.protected;
+}
+
+export async function listBranches(token: string, repo: string): Promise<Branch[]> {
+  const branches: Branch[] = [];
+  const perPage = 100;
+
+  for (let page = 1; ; page++) {
+    const data = await githubRequest<Array<{ name: string; protected: boolean }>>(
+      `/repos/${repo}/branches?per_page=${perPage}&page=${page}`,
+      token
+    );
+    branches.push(...data.map((branch) => ({ name: branch.name, protected: branch.protected })));
+    if (data.length < perPage) break;
+  }
+
+  return branches;
+}
@@ -1,8 +1,9 @@
 import {
   sendWhatsAppMessage,
   sendInteractiveButtons,
-  sendInteractiveList,
   markAsReadWithTyping,
+  downloadMedia,
+  type InboundMedia,
   type ParsedMessage,
 } from "./kapso.js";
 import {
@@ -11,108 +12,269 @@ import {
   sendMessage,
   killClient,
   getSessionInfo,
+  getFocusedSession,
+  nextSessionName,
+  sessionKey,
   hasActiveClient,
   hasPausedSession,
   interruptSession,
+  restoreSessions,
+  type Prompt,
+  type SessionOptions,
 } from "./claude.js";
-import { fetchAccessibleRepos, type GitHubRepo } from "./github.js";
-import { MessageBuffer } from "./formatter.js";
-
-type ToolInput = {
-  file_path?: string;
-  command?: string;
-  pattern?: string;
-  path?: string;
-  old_string?: string;
-  new_string?: string;
-  content?: string;
-};
+import type { ClaudeAgentClient } from "./lib/claude-agent/index.js";
+import type { GitHubRepo } from "./github.js";
+import { MessageBuffer, toWhatsApp } from "./formatter.js";
+import { createStore } from "./store.js";
+import { getPreferences, restorePreferences } from "./preferences.js";
+import { handleGitHubTaskButton, isGitHubTaskButton } from "./github-webhook.js";
+import { handleModelButton, handleModelCommand, isModelButton } from "./models.js";
+import { handleMcpCommand } from "./mcp.js";
+import { handleAgentsCommand } from "./agents.js";
+import {
+  formatSessions,
+  handleSessionButton,
+  handleSessionsCommand,
+  isSessionButton,
+} from "./session-picker.js";
+import {
+  getRepoFromButtonId,
+  getReposForContact,
+  handleRepoCommand,
+  handleRepoPageButton,
+  isRepoPageButton,
+  isRepoSelection,
+  rankRepos,
+  recordRecentRepo,
+  repoButtonId,
+  sendRepoList,
+} from "./repo-picker.js";
+import {
+  clearQueue,
+  enqueue,
+  handleModeButton,
+  handleModeCommand,
+  isBusy,
+  isModeButton,
+  markBusy,
+  markIdle,
+  sendQueuedAck,
+  takeNext,
+  type QueuedMessage,
+} from "./message-queue.js";
+import { buildPrompt } from "./attachments.js";
+import { sendLongResponse, sendWorkspaceDiff, sendWorkspaceFile } from "./files.js";
+import { handleApprovalButton, isApprovalButton, requestApproval } from "./approvals.js";
+import {
+  canAccessRepo,
+  canPush,
+  handleAccessCommand,
+  isAuthorized,
+  restoreUsers,
+} from "./access.js";
+import { getGitHubIdentity, handleGitHubAuthCommand, restoreIdentities } from "./github-auth.js";
+import {
+  handlePullRequestButton,
+  handleReviewerReply,
+  isPullRequestButton,
+  openPullRequest,
+  restorePullRequests,
+} from "./pull-requests.js";
+import { getTranscriptionProvider } from "./transcription.js";
+import { formatToolMessage } from "./tool-renderers.js";
+import { TurnProgress, handleVerboseButton, handleVerboseCommand, isVerboseButton } from "./progress.js";
+import { checkSessionBudget, checkSpendLimit, handleUsageCommand, restoreUsage } from "./usage.js";
+import { restoreSeenMessages } from "./dedupe.js";
+import {
+  BRANCH_PREFIX,
+  handleBranchCommand,
+  handleBranchPageButton,
+  isBranchPageButton,
+  sendBranchList,
+} from "./branch-picker.js";
+import { restoreServiceWindows } from "./service-window.js";
 
-type ToolInfo = {
-  name: string;
-  input?: Record<string, unknown>;
-  result?: string;
-  isError?: boolean;
+const BUTTON_CONTINUE = "continue_session";
+const BUTTON_RESET = "reset_session";
+
+const BRANCH_NEW = "branch_new";
+const BRANCH_EXISTING = "branch_existing";
+const BRANCH_OPEN_PR = "branch_open_pr";
+
+type PendingRepo = {
+  githubRepo: string;
+  /** Existing branch to check out. A new session branch is created when unset */
+  branch?: string;
 };
 
-function truncate(str: string, maxLines: number, maxChars: number): string {
-  const lines = str.split("\n").slice(0, maxLines);
-  const result = lines.join("\n");
-  return result.length > maxChars ? result.slice(0, maxChars) + "..." : result;
-}
+// Pending repo selections (user selected repo but hasn't sent task yet)
+const pendingRepos = new Map<string, PendingRepo>();
 
-function formatToolMessage(tool: ToolInfo): string {
-  const input = (tool.input || {}) as ToolInput;
-  const result = tool.result ? truncate(tool.result, 8, 400) : "";
-  const divider = "──────────";
-
-  switch (tool.name) {
-    case "Edit": {
-      const file = input.file_path?.split("/").pop() || "file";
-      const oldCode = input.old_string
-        ? "```\n- " + truncate(input.old_string, 6, 200).split("\n").join("\n- ") + "\n```"
-        : "";
-      const newCode = input.new_string
-        ? "```\n+ " + truncate(input.new_string, 6, 200).split("\n").join("\n+ ") + "\n```"
-        : "";
-      return `📝 Edit \`${file}\`\n${divider}\n${oldCode}\n${newCode}`;
-    }
+// Sessions currently being set up, by contact (prevents race conditions)
+const settingUpSessions = new Map<string, string>();
 
-    case "Write": {
-      const file = input.file_path?.split("/").pop() || "file";
-      return `📝 Write \`${file}\`${result ? `\n${divider}\n${result}` : ""}`;
-    }
+// Sessions where Claude is drafting a /pr, keyed by sessionKey()
+const draftingPullRequests = new Set<string>();
 
-    case "Read": {
-      const file = input.file_path?.split("/").pop() || "file";
-      // Don't show result for Read (too long)
-      return `📖 Read \`${file}\``;
-    }
+type PendingRepoRow = {
+  contact_id: string;
+  github_repo: string;
+  branch_name?: string | null;
+  /** Session being set up, so a restart can clean up its sandbox */
+  session_name?: string | null;
+  status: "pending" | "setting_up";
+  updated_at: string;
+};
 
-    case "Bash": {
-      const cmd = input.command ? truncate(input.command, 1, 60) : "";
-      const output = result ? `\n${divider}\n\`\`\`\n${result}\n\`\`\`` : "";
-      return `⚡ Bash \`${cmd}\`${output}`;
-    }
+// Persistent copy of pendingRepos and settingUpSessions
+const pendingRepoStore = createStore<PendingRepoRow>("whatsapp_pending_repos", "contact_id");
 
-    case "Glob":
-    case "Grep": {
-      const pattern = input.pattern || "";
-      const path = input.path ? ` in \`${input.path}\`` : "";
-      return `🔍 ${tool.name} \`${pattern}\`${path}${result ? `\n${divider}\n${result}` : ""}`;
-    }
+function persistPendingRepo(
+  contactId: string,
+  pending: PendingRepo | null,
+  status: PendingRepoRow["status"] = "pending",
+  sessionName?: string
+): void {
+  const write = pending
+    ? pendingRepoStore.set(contactId, {
+        contact_id: contactId,
+        github_repo: pending.githubRepo,
+        branch_name: pending.branch ?? null,
+        session_name: sessionName ?? null,
+        status,
+        updated_at: new Date().toISOString(),
+      })
+    : pendingRepoStore.delete(contactId);
 
-    default: {
-      return `🔧 ${tool.name}${result ? `\n${divider}\n${result}` : ""}`;
-    }
-  }
+  write.catch((error) => console.error("Failed to persist pending repo:", error));
 }
 
-const BUTTON_CONTINUE = "continue_session";
-const BUTTON_RESET = "reset_session";
-const REPO_PREFIX = "repo:";
+function setPendingRepo(contactId: string, pending: PendingRepo): void {
+  pendingRepos.set(contactId, pending);
+  persistPendingRepo(contactId, pending);
+}
 
-// Pending repo selections (user selected repo but hasn't sent task yet)
-const pendingRepos = new Map<string, string>();
+function clearPendingRepo(contactId: string): void {
+  pendingRepos.delete(contactId);
+  persistPendingRepo(contactId, null);
+}
+
+/** The session the contact's messages go to, including one still being set up */
+function getTargetSession(contactId: string): string | null {
+  return settingUpSessions.get(contactId) ?? getFocusedSession(contactId);
+}
+
+/**
+ * Rehydrate sessions and repo selections saved by a previous process.
+ * Setups interrupted by the restart go back to "pending" so the user's next
+ * message retries them from scratch.
+ */
+export async function restoreState(): Promise<{
+  sessions: number;
+  pending: number;
+  users: number;
+  identities: number;
+  pullRequests: number;
+}> {
+  const users = await restoreUsers();
+  const identities = await restoreIdentities();
+  const pullRequests = await restorePullRequests();
+  await restorePreferences();
+  await restoreUsage();
+  await restoreSeenMessages();
+  await restoreServiceWindows();
+  const sessions = await restoreSessions();
+  const rows = await pendingRepoStore.all();
 
-// Sessions currently being set up (prevents race conditions)
-const settingUpSessions = new Set<string>();
+  for (const row of rows) {
+    const pending = { githubRepo: row.github_repo, branch: row.branch_name || undefined };
+    if (row.status === "setting_up") {
+      // Without a name killClient would pick the focused session, which may be a healthy one
+      if (row.session_name) {
+        await killClient(row.contact_id, row.session_name);
+      } else {
+        console.warn(`Setup for ${row.contact_id} was interrupted, but its session is unknown - not killing any sandbox`);
+      }
+      persistPendingRepo(row.contact_id, pending);
+    }
+    pendingRepos.set(row.contact_id, pending);
+  }
 
-function isRepoSelection(buttonId: string | undefined): boolean {
-  return buttonId?.startsWith(REPO_PREFIX) || false;
+  return { sessions, pending: rows.length, users, identities, pullRequests };
 }
 
-function getRepoFromButtonId(buttonId: string): string {
-  return buttonId.slice(REPO_PREFIX.length);
+function isBranchChoice(buttonId: string | undefined): boolean {
+  return (
+    buttonId === BRANCH_NEW ||
+    buttonId === BRANCH_EXISTING ||
+    buttonId === BRANCH_OPEN_PR ||
+    buttonId?.startsWith(BRANCH_PREFIX) ||
+    isBranchPageButton(buttonId) ||
+    false
+  );
 }
 
 const WELCOME_BODY = `Work with Claude directly in your codebase. Build, debug, and ship from WhatsApp.
 
 *Commands*
 Claude: \`/compact\` \`/clear\` \`/status\` \`/help\`
-Custom: \`/info\` \`/reset\``;
+Custom: \`/info\` \`/sessions\` \`/new\` \`/reset\` \`/repo\` \`/pr\` \`/file\` \`/diff\` \`/model\` \`/mcp\` \`/agents\` \`/mode\` \`/verbose\` \`/usage\` \`/login\``;
+
+// Responses longer than this many WhatsApp messages are sent as a document
+const MAX_RESPONSE_CHUNKS = Number(process.env.MAX_RESPONSE_CHUNKS) || 3;
+
+/** Create a buffer that batches Claude's text into WhatsApp messages */
+function createMessageBuffer(
+  to: string,
+  label: (text: string) => string = (text) => text,
+  debounceMs?: number
+): MessageBuffer {
+  return new MessageBuffer(
+    async (text) => {
+      await sendWhatsAppMessage(to, label(text));
+    },
+    debounceMs,
+    {
+      maxChunks: MAX_RESPONSE_CHUNKS,
+      callback: (content) => sendLongResponse(to, content),
+    }
+  );
+}
+
+/** Session settings derived from the contact's role and GitHub login */
+function getSessionOptions(contactId: string): SessionOptions {
+  const identity = getGitHubIdentity(contactId);
+  return {
+    readOnly: !canPush(contactId),
+    githubToken: identity?.token,
+    gitAuthor: identity ? { name: identity.name, email: identity.email } : undefined,
+    settings: getPreferences(contactId).sessionDefaults,
+    mcpServers: getPreferences(contactId).mcpServers,
+  };
+}
+
+/** Get the client of an existing session, resuming it if paused. Never starts a new sandbox. */
+async function getExistingClient(contactId: string): Promise<ClaudeAgentClient | null> {
+  const info = getSessionInfo(contactId);
+  if (!info) return null;
+
+  const { client, isNew } = await getOrCreateClient(
+    contactId,
+    info.githubRepo,
+    getSessionOptions(contactId)
+  );
+  if (isNew) {
+    // The paused sandbox couldn't be resumed and a blank one was started instead
+    await killClient(contactId);
+    return null;
+  }
+  return client;
+}
+
+async function showWelcomeWithRepos(to: string, allRepos: GitHubRepo[]): Promise<void> {
+  // Pinned and recently used repos first
+  const repos = rankRepos(to, allRepos);
 
-async function showWelcomeWithRepos(to: string, repos: GitHubRepo[]): Promise<void> {
   if (repos.length === 0) {
     await sendWhatsAppMessage(
       to,
@@ -127,7 +289,7 @@ async function showWelcomeWithRepos(to: string, repos: GitHubRepo[]): Promise<vo
       header: "Claude Code 🤖",
       body: `${WELCOME_BODY}\n\n📁 ${repos[0].fullName}`,
       footer: "Powered by Kapso",
-      buttons: [{ id: `${REPO_PREFIX}${repos[0].fullName}`, title: "Start" }],
+      buttons: [{ id: repoButtonId(repos[0].fullName), title: "Start" }],
     });
     return;
   }
@@ -139,103 +301,574 @@ async function showWelcomeWithRepos(to: string, repos: GitHubRepo[]): Promise<vo
       body: WELCOME_BODY,
       footer: "Powered by Kapso",
       buttons: repos.map((repo) => ({
-        id: `${REPO_PREFIX}${repo.fullName}`,
+        id: repoButtonId(repo.fullName),
         title: repo.name.slice(0, 20), // Button title max 20 chars
       })),
     });
     return;
   }
 
-  // Show as list (more than 3)
-  await sendInteractiveList(to, {
-    header: "Claude Code 🤖",
-    body: WELCOME_BODY,
+  // Show as a paged list (more than 3)
+  await sendRepoList(to, repos, { body: WELCOME_BODY });
+}
+
+/** Ask where to work after a repo is picked: a new branch, an existing branch or an open PR */
+async function showBranchOptions(to: string, githubRepo: string): Promise<void> {
+  await sendInteractiveButtons(to, {
+    header: "Where should Claude work?",
+    body: `📁 ${githubRepo}\n\nStart a new branch, or continue on an existing branch or pull request.\nYou can also just send your task to use a new branch.`,
     footer: "Powered by Kapso",
-    buttonText: "Select repo",
-    sectionTitle: "Your repositories",
-    rows: repos.slice(0, 10).map((repo) => ({
-      id: `${REPO_PREFIX}${repo.fullName}`,
-      title: repo.name.slice(0, 24), // Row title max 24 chars
-      description: repo.owner,
-    })),
+    buttons: [
+      { id: BRANCH_NEW, title: "New branch" },
+      { id: BRANCH_EXISTING, title: "Existing branch" },
+      { id: BRANCH_OPEN_PR, title: "Open PR" },
+    ],
   });
 }
 
+/** Send one prompt to Claude and stream the response back to WhatsApp */
+async function runTurn(
+  to: string,
+  client: ClaudeAgentClient,
+  prompt: Prompt,
+  sessionName: string,
+  replyTo?: string
+): Promise<void> {
+  // Over today's spend cap or the session's max spend: don't start the turn
+  if (await checkSpendLimit(to)) return;
+  const info = getSessionInfo(to, sessionName);
+  if (info && (await checkSessionBudget(to, { ...info, maxBudgetUsd: info.settings.maxBudgetUsd }))) return;
+
+  // Output from sessions running in the background is labelled with their name
+  const inBackground = () => getTargetSession(to) !== sessionName;
+  const label = (text: string) => (inBackground() ? `*[${sessionName}]*\n${text}` : text);
+
+  // Tool messages and status for the contact's /verbose setting
+  const progress = new TurnProgress(to, label, replyTo);
+  progress.start();
+
+  // Create message buffer for batching responses. Without narration, text is
+  // held until the turn ends so only the final answer is sent
+  const buffer = createMessageBuffer(
+    to,
+    label,
+    progress.sendsNarration ? undefined : 10 * 60 * 1000
+  );
+
+  // Send message and stream responses
+  try {
+    await sendMessage(
+      client,
+      to,
+      prompt,
+      (responseText) => {
+        buffer.append(responseText);
+      },
+      async (tool) => {
+        const standalone = progress.record(tool);
+        const pendingText = buffer.take();
+        if (!standalone) {
+          await progress.update();
+          return;
+        }
+
+        // Combine any pending text with tool message
+        const toolMessage = formatToolMessage(tool);
+        const message =
+          pendingText && progress.sendsNarration
+            ? `${toWhatsApp(pendingText)}\n${toolMessage}`
+            : toolMessage;
+        await sendWhatsAppMessage(to, label(message));
+      },
+      (request) => {
+        requestApproval(to, client, request).catch((error) =>
+          console.error("Error requesting approval:", error)
+        );
+      }
+    );
+  } catch (error) {
+    progress.fail();
+    throw error;
+  }
+
+  // Flush any remaining buffered content
+  await buffer.flush();
+  await progress.finish();
+
+  // Reset inactivity timeout
+  await client.setTimeout(30 * 60 * 1000); // 30 minutes
+
+  if (inBackground()) {
+    await sendWhatsAppMessage(
+      to,
+      `✅ *${sessionName}* finished. Send /sessions to switch to it.`
+    );
+  }
+}
+
+function clearSettingUp(contactId: string, sessionName: string): void {
+  if (settingUpSessions.get(contactId) === sessionName) {
+    settingUpSessions.delete(contactId);
+  }
+}
+
 async function startSessionWithTask(
   to: string,
-  githubRepo: string,
-  task: string
+  { githubRepo, branch }: PendingRepo,
+  task: string,
+  media?: InboundMedia,
+  replyTo?: string
 ): Promise<void> {
-  settingUpSessions.add(to);
+  // Don't start a sandbox that couldn't run the task
+  if (await checkSpendLimit(to)) return;
+
+  // Always a new session, which takes focus
+  const sessionName = nextSessionName(to, githubRepo);
+  const key = sessionKey(to, sessionName);
+  settingUpSessions.set(to, sessionName);
+  markBusy(key);
+  persistPendingRepo(to, { githubRepo, branch }, "setting_up", sessionName);
 
   try {
     await sendWhatsAppMessage(to, "Setting up your workspace...");
 
-    const { client, branchName } = await getOrCreateClient(to, githubRepo);
+    const options = { ...getSessionOptions(to), branch, sessionName };
+    const { client, branchName } = await getOrCreateClient(to, githubRepo, options);
 
     if (branchName) {
-      await setupRepository(client, branchName, githubRepo);
+      await setupRepository(client, branchName, githubRepo, options);
       await sendWhatsAppMessage(
         to,
-        `Ready ✅\n──────────\n📁 ${githubRepo}\n🔀 ${branchName}`
+        `Ready ✅\n──────────\n💬 ${sessionName}\n📁 ${githubRepo}\n🔀 ${branchName}`
       );
 
-      // Create message buffer for batching responses
-      const buffer = new MessageBuffer(async (text) => {
-        await sendWhatsAppMessage(to, text);
-      });
+      clearSettingUp(to, sessionName);
 
-      // Send the task to Claude
-      await sendMessage(
-        client,
-        to,
-        task,
-        (responseText) => {
-          buffer.append(responseText);
-        },
-        async (tool) => {
-          // Combine any pending text with tool message
-          const pendingText = buffer.take();
-          const toolMessage = formatToolMessage(tool);
-          const message = pendingText ? `${pendingText}\n${toolMessage}` : toolMessage;
-          await sendWhatsAppMessage(to, message);
-        }
+      // Send the task to Claude, then anything sent during setup
+      await runTurn(to, client, await buildPrompt(client, task, media), sessionName, replyTo);
+      await runQueuedTurns(to, sessionName);
+    }
+  } catch (error) {
+    clearQueue(key);
+    throw error;
+  } finally {
+    clearSettingUp(to, sessionName);
+    markIdle(key);
+    persistPendingRepo(to, null);
+  }
+}
+
+/**
+ * Run a message in one of the contact's existing sessions. Returns false if
+ * the session had to be closed because of an error.
+ */
+async function continueSession(
+  from: string,
+  sessionName: string,
+  message: QueuedMessage,
+  buttonId?: string
+): Promise<boolean> {
+  try {
+    const info = getSessionInfo(from, sessionName);
+    const githubRepo = info?.githubRepo || "";
+
+    const options = { ...getSessionOptions(from), sessionName };
+    const { client, isNew, branchName, resumed, sessionWasReset } = await getOrCreateClient(
+      from,
+      githubRepo,
+      options
+    );
+
+    // Notify user if session was reset (failed to resume paused sandbox)
+    if (sessionWasReset) {
+      await sendWhatsAppMessage(
+        from,
+        "⚠️ Previous session expired. Starting fresh..."
       );
+    }
 
-      await buffer.flush();
-      await client.setTimeout(30 * 60 * 1000); // 30 minutes
+    // Setup repository if new session (shouldn't happen here, but handle it)
+    if (isNew && branchName) {
+      await sendWhatsAppMessage(from, "Setting up your workspace...");
+      await setupRepository(client, branchName, githubRepo, options);
+      await sendWhatsAppMessage(
+        from,
+        `Ready ✅\n──────────\n📁 ${githubRepo}\n🔀 ${branchName}\n\nWhat do you want to work on?`
+      );
+      return true;
     }
-  } finally {
-    settingUpSessions.delete(to);
+
+    // Notify if session was resumed
+    if (resumed) {
+      await sendWhatsAppMessage(from, `Session resumed on ${branchName}`);
+    }
+
+    // Don't process the button click as a message
+    if (buttonId === BUTTON_CONTINUE) {
+      return true;
+    }
+
+    // Download attachments first, so a failed download leaves the session alone
+    let prompt: Prompt;
+    try {
+      prompt = await buildPrompt(client, message.text, message.media);
+    } catch (error) {
+      console.error("Error preparing attachment:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      await sendWhatsAppMessage(
+        from,
+        `Failed to process attachment: ${errorMessage.slice(0, 200)}`
+      );
+      return true;
+    }
+
+    await runTurn(from, client, prompt, sessionName, message.messageId);
+    return true;
+  } catch (error) {
+    console.error("Error handling message:", error);
+    await killClient(from, sessionName);
+
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    await sendWhatsAppMessage(
+      from,
+      `Something went wrong: ${errorMessage.slice(0, 200)}`
+    );
+    return false;
+  }
+}
+
+/** Run messages queued while a session was busy, in the contact's current mode */
+async function runQueuedTurns(from: string, sessionName: string): Promise<void> {
+  const key = sessionKey(from, sessionName);
+  let next: QueuedMessage | null;
+  while ((next = takeNext(key, getPreferences(from).messageMode))) {
+    if (!(await continueSession(from, sessionName, next))) {
+      clearQueue(key);
+      return;
+    }
+  }
+}
+
+/** Transcribe a voice note and echo it back. Returns null if it couldn't be used. */
+async function transcribeVoiceNote(to: string, media: InboundMedia): Promise<string | null> {
+  try {
+    // Throws if TRANSCRIPTION_PROVIDER is misconfigured
+    const provider = getTranscriptionProvider();
+    if (!provider) {
+      await sendWhatsAppMessage(to, "Voice notes aren't enabled on this server. Please type your message.");
+      return null;
+    }
+
+    const audio = await downloadMedia(media.id);
+    const transcript = await provider.transcribe(audio, media.mimeType || "audio/ogg");
+    if (!transcript) {
+      await sendWhatsAppMessage(to, "🎙️ Couldn't hear anything in that voice note. Please try again.");
+      return null;
+    }
+    await sendWhatsAppMessage(to, `🎙️ heard: ${transcript}`);
+    return transcript;
+  } catch (error) {
+    console.error("Error transcribing voice note:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    await sendWhatsAppMessage(
+      to,
+      `Failed to transcribe voice note: ${errorMessage.slice(0, 200)}`
+    );
+    return null;
   }
 }
 
 export async function handleMessage(message: ParsedMessage): Promise<void> {
-  const { from, text, messageId, buttonId } = message;
+  const { from, messageId, buttonId, media } = message;
+  let { text } = message;
+
+  // Only allow-listed numbers may use the bot
+  if (!isAuthorized(from)) {
+    await sendWhatsAppMessage(
+      from,
+      "🚫 This number isn't authorized to use Claude Code. Ask an admin to /grant you access."
+    );
+    return;
+  }
 
   // Mark as read and show typing indicator
   await markAsReadWithTyping(messageId).catch(() => {});
 
+  // Approve/Deny replies go straight to the waiting tool call (never interrupt it)
+  if (isApprovalButton(buttonId)) {
+    await handleApprovalButton(from, buttonId!);
+    return;
+  }
+
+  // Pull request card buttons (Mark ready / Request review / Close)
+  if (isPullRequestButton(buttonId)) {
+    try {
+      await handlePullRequestButton(from, buttonId!);
+    } catch (error) {
+      console.error("Error updating pull request:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      await sendWhatsAppMessage(
+        from,
+        `Failed to update pull request: ${errorMessage.slice(0, 200)}`
+      );
+    }
+    return;
+  }
+
+  // "Work on this" / "Ignore" on a GitHub issue, review comment or failed check
+  if (isGitHubTaskButton(buttonId)) {
+    try {
+      const task = await handleGitHubTaskButton(from, buttonId!);
+      if (task) {
+        clearPendingRepo(from);
+        await startSessionWithTask(from, { githubRepo: task.repo, branch: task.branch }, task.task);
+      }
+    } catch (error) {
+      console.error("Error starting session:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      await sendWhatsAppMessage(
+        from,
+        `Failed to start session: ${errorMessage.slice(0, 200)}`
+      );
+    }
+    return;
+  }
+
+  // Session picked from /sessions
+  if (isSessionButton(buttonId)) {
+    await handleSessionButton(from, buttonId!);
+    return;
+  }
+
+  // Model picked from /model
+  if (isModelButton(buttonId)) {
+    try {
+      await handleModelButton(from, buttonId!);
+    } catch (error) {
+      console.error("Error updating model settings:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      await sendWhatsAppMessage(
+        from,
+        `Failed to update settings: ${errorMessage.slice(0, 200)}`
+      );
+    }
+    return;
+  }
+
+  // Verbosity buttons from /verbose
+  if (isVerboseButton(buttonId)) {
+    await handleVerboseButton(from, buttonId!);
+    return;
+  }
+
+  // Message mode buttons from /mode
+  if (isModeButton(buttonId)) {
+    await handleModeButton(from, buttonId!);
+    return;
+  }
+
+  // Voice notes are transcribed and then handled exactly like text
+  if (media?.type === "audio") {
+    const transcript = await transcribeVoiceNote(from, media);
+    if (!transcript) return;
+    text = transcript;
+  }
+
   // Handle /reset command or reset button
   if (text.trim().toLowerCase() === "/reset" || buttonId === BUTTON_RESET) {
+    const ended = getFocusedSession(from);
     await killClient(from);
-    pendingRepos.delete(from);
+    clearPendingRepo(from);
+    if (ended) clearQueue(sessionKey(from, ended));
+
+    const next = getFocusedSession(from);
     await sendWhatsAppMessage(
       from,
-      "Session ended ✅\n──────────\nYour workspace has been closed.\n\nSend any message to start a new session."
+      next
+        ? `Session ended ✅\n──────────\nYour workspace has been closed.\n\nNow on *${next}*. Send /sessions to switch.`
+        : "Session ended ✅\n──────────\nYour workspace has been closed.\n\nSend any message to start a new session."
     );
     return;
   }
 
   // Handle /info command
   if (text.trim().toLowerCase() === "/info") {
+    await sendWhatsAppMessage(from, formatSessions(from));
+    return;
+  }
+
+  // Handle /sessions - pick which session gets messages
+  if (await handleSessionsCommand(from, text)) {
+    return;
+  }
+
+  // Handle /new - pick a repo for another session, keeping the current ones
+  if (text.trim().toLowerCase() === "/new") {
+    clearPendingRepo(from);
+    try {
+      await showWelcomeWithRepos(from, await getReposForContact(from));
+    } catch (error) {
+      console.error("Error fetching repos:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      await sendWhatsAppMessage(
+        from,
+        `Failed to fetch repositories: ${errorMessage.slice(0, 200)}`
+      );
+    }
+    return;
+  }
+
+  // Handle /model - model, effort and budgets
+  if (await handleModelCommand(from, text)) {
+    return;
+  }
+
+  // Handle /mcp list, /mcp add and /mcp remove
+  if (await handleMcpCommand(from, text)) {
+    return;
+  }
+
+  // Handle /agents and /agents reload
+  if (await handleAgentsCommand(from, text)) {
+    return;
+  }
+
+  // Handle /usage - spend and tokens for today, this week and this month
+  if (await handleUsageCommand(from, text)) {
+    return;
+  }
+
+  // Handle /verbose [quiet|summary|full]
+  if (await handleVerboseCommand(from, text)) {
+    return;
+  }
+
+  // Handle /mode [queue|interrupt|merge]
+  if (await handleModeCommand(from, text)) {
+    return;
+  }
+
+  // Handle /repo [query], /repo pin and /repo unpin
+  if (await handleRepoCommand(from, text)) {
+    return;
+  }
+
+  // Handle /grant, /revoke and /users (admins only)
+  if (await handleAccessCommand(from, text)) {
+    return;
+  }
+
+  // Handle /login and /logout (GitHub device flow)
+  if (await handleGitHubAuthCommand(from, text)) {
+    return;
+  }
+
+  // Handle /file <path> and /diff commands - send workspace content as documents
+  const fileCommand = text.trim().match(/^\/file(?:\s+(.+))?$/i);
+  if (fileCommand || text.trim().toLowerCase() === "/diff") {
+    if (fileCommand && !fileCommand[1]) {
+      await sendWhatsAppMessage(from, "Usage: /file <path>");
+      return;
+    }
+    try {
+      const client = await getExistingClient(from);
+      if (!client) {
+        await sendWhatsAppMessage(from, "No active session.");
+      } else if (fileCommand) {
+        await sendWorkspaceFile(from, client, fileCommand[1].trim());
+      } else {
+        await sendWorkspaceDiff(from, client);
+      }
+    } catch (error) {
+      console.error("Error sending file:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      await sendWhatsAppMessage(
+        from,
+        `Failed to send file: ${errorMessage.slice(0, 200)}`
+      );
+    }
+    return;
+  }
+
+  // Handle /pr command - push the session branch and open a pull request
+  if (text.trim().toLowerCase() === "/pr") {
     const info = getSessionInfo(from);
+    if (!canPush(from)) {
+      await sendWhatsAppMessage(from, "🚫 Your role can't open pull requests.");
+      return;
+    }
     if (!info) {
       await sendWhatsAppMessage(from, "No active session.");
-    } else {
+      return;
+    }
+    const key = sessionKey(from, info.name);
+    if (isBusy(key)) {
+      await sendWhatsAppMessage(from, "Claude is still working. Try /pr again when it's done.");
+      return;
+    }
+
+    // Claude drafts the PR in a turn of its own: messages sent meanwhile wait for it
+    markBusy(key);
+    draftingPullRequests.add(key);
+    try {
+      try {
+        const client = await getExistingClient(from);
+        if (!client) {
+          await sendWhatsAppMessage(from, "No active session.");
+        } else {
+          await openPullRequest(from, client, info);
+        }
+      } catch (error) {
+        console.error("Error opening pull request:", error);
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        await sendWhatsAppMessage(
+          from,
+          `Failed to open pull request: ${errorMessage.slice(0, 200)}`
+        );
+      } finally {
+        draftingPullRequests.delete(key);
+      }
+      await runQueuedTurns(from, info.name);
+    } finally {
+      markIdle(key);
+    }
+    return;
+  }
+
+  // Reviewer handles after tapping "Request review" (anything else cancels and carries on)
+  try {
+    if (await handleReviewerReply(from, text)) return;
+  } catch (error) {
+    console.error("Error requesting review:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    await sendWhatsAppMessage(
+      from,
+      `Failed to request review: ${errorMessage.slice(0, 200)}`
+    );
+    return;
+  }
+
+  // "More…" row in the repo list - send the next page
+  if (isRepoPageButton(buttonId)) {
+    try {
+      await handleRepoPageButton(from, buttonId!);
+    } catch (error) {
+      console.error("Error fetching repos:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
       await sendWhatsAppMessage(
         from,
-        `Status: ${info.status}\nRepo: ${info.githubRepo}\nBranch: ${info.branchName}\nSandbox: ${info.sandboxId}`
+        `Failed to fetch repositories: ${errorMessage.slice(0, 200)}`
       );
     }
     return;
@@ -244,20 +877,70 @@ export async function handleMessage(message: ParsedMessage): Promise<void> {
   // Handle repo selection from buttons/list - store and ask for task
   if (isRepoSelection(buttonId)) {
     const selectedRepo = getRepoFromButtonId(buttonId!);
-    pendingRepos.set(from, selectedRepo);
+    if (!canAccessRepo(from, selectedRepo)) {
+      await sendWhatsAppMessage(from, `🚫 You don't have access to ${selectedRepo}.`);
+      return;
+    }
+    setPendingRepo(from, { githubRepo: selectedRepo });
+    await recordRecentRepo(from, selectedRepo);
+    await showBranchOptions(from, selectedRepo);
+    return;
+  }
+
+  // Handle branch choice for the selected repo - new, existing branch or open PR
+  if (isBranchChoice(buttonId)) {
+    const pending = pendingRepos.get(from);
+    if (!pending) {
+      await sendWhatsAppMessage(from, "Send any message to pick a repository first.");
+      return;
+    }
+
+    if (buttonId === BRANCH_EXISTING || buttonId === BRANCH_OPEN_PR || isBranchPageButton(buttonId)) {
+      try {
+        if (isBranchPageButton(buttonId)) {
+          await handleBranchPageButton(from, pending.githubRepo, buttonId!);
+        } else {
+          await sendBranchList(from, pending.githubRepo, buttonId === BRANCH_OPEN_PR ? "pulls" : "branches");
+        }
+      } catch (error) {
+        console.error("Error fetching branches:", error);
+        const errorMessage =
+          error instanceof Error ? error.message : "Unknown error";
+        await sendWhatsAppMessage(
+          from,
+          `Failed to fetch branches: ${errorMessage.slice(0, 200)}`
+        );
+      }
+      return;
+    }
+
+    const branch = buttonId!.startsWith(BRANCH_PREFIX) ? buttonId!.slice(BRANCH_PREFIX.length) : undefined;
+    setPendingRepo(from, { githubRepo: pending.githubRepo, branch });
     await sendWhatsAppMessage(
       from,
-      `📁 ${selectedRepo}\n\nWhat do you want to work on?`
+      `📁 ${pending.githubRepo}\n🔀 ${branch || "new branch"}\n\nWhat do you want to work on?`
     );
     return;
   }
 
-  // Handle pending repo - user sent their task
+  // Handle pending repo - user sent their task (or searched its branches)
   if (pendingRepos.has(from)) {
-    const githubRepo = pendingRepos.get(from)!;
-    pendingRepos.delete(from);
+    const pending = pendingRepos.get(from)!;
     try {
-      await startSessionWithTask(from, githubRepo, text);
+      if (await handleBranchCommand(from, pending.githubRepo, text)) return;
+    } catch (error) {
+      console.error("Error fetching branches:", error);
+      const errorMessage =
+        error instanceof Error ? error.message : "Unknown error";
+      await sendWhatsAppMessage(
+        from,
+        `Failed to fetch branches: ${errorMessage.slice(0, 200)}`
+      );
+      return;
+    }
+    clearPendingRepo(from);
+    try {
+      await startSessionWithTask(from, pending, text, media, messageId);
     } catch (error) {
       console.error("Error starting session:", error);
       const errorMessage =
@@ -285,16 +968,31 @@ export async function handleMessage(message: ParsedMessage): Promise<void> {
     return;
   }
 
-  // Skip if session is being set up (prevents race condition)
+  // Claude is still working - queue, merge or interrupt depending on /mode
+  const target = getTargetSession(from);
+  if (target && isBusy(sessionKey(from, target)) && buttonId !== BUTTON_CONTINUE) {
+    const mode = getPreferences(from).messageMode;
+    // There's nothing to interrupt while the workspace is still being set up,
+    // and a PR draft must finish before the branch is pushed
+    const uninterruptible =
+      settingUpSessions.get(from) === target || draftingPullRequests.has(sessionKey(from, target));
+    if (mode !== "interrupt" || uninterruptible) {
+      const ahead = enqueue(sessionKey(from, target), { text, media, messageId });
+      await sendQueuedAck(from, ahead, mode === "interrupt" ? "queue" : mode);
+      return;
+    }
+  }
+
+  // Session is being set up (prevents race condition)
   if (settingUpSessions.has(from)) {
+    await sendWhatsAppMessage(from, "Still setting up your workspace, one moment...");
     return;
   }
 
   // Check if user has no session - show repo selection directly
   if (!hasActiveClient(from) && !isRepoSelection(buttonId) && buttonId !== BUTTON_CONTINUE) {
     try {
-      const repos = await fetchAccessibleRepos();
-      await showWelcomeWithRepos(from, repos);
+      await showWelcomeWithRepos(from, await getReposForContact(from));
     } catch (error) {
       console.error("Error fetching repos:", error);
       const errorMessage =
@@ -307,85 +1005,19 @@ export async function handleMessage(message: ParsedMessage): Promise<void> {
     return;
   }
 
-  // Continue existing session
-  try {
-    const info = getSessionInfo(from);
-    const githubRepo = info?.githubRepo || "";
-
-    const { client, isNew, branchName, resumed, sessionWasReset } = await getOrCreateClient(
-      from,
-      githubRepo
-    );
-
-    // Notify user if session was reset (failed to resume paused sandbox)
-    if (sessionWasReset) {
-      await sendWhatsAppMessage(
-        from,
-        "⚠️ Previous session expired. Starting fresh..."
-      );
-    }
-
-    // Setup repository if new session (shouldn't happen here, but handle it)
-    if (isNew && branchName) {
-      await sendWhatsAppMessage(from, "Setting up your workspace...");
-      await setupRepository(client, branchName, githubRepo);
-      await sendWhatsAppMessage(
-        from,
-        `Ready ✅\n──────────\n📁 ${githubRepo}\n🔀 ${branchName}\n\nWhat do you want to work on?`
-      );
-      return;
-    }
+  // Interrupt any ongoing processing (only still running in interrupt mode)
+  const sessionName = getFocusedSession(from)!;
+  interruptSession(from, sessionName);
 
-    // Notify if session was resumed
-    if (resumed) {
-      await sendWhatsAppMessage(from, `Session resumed on ${branchName}`);
-    }
-
-    // Don't process the button click as a message
-    if (buttonId === BUTTON_CONTINUE) {
-      return;
+  // Continue the focused session, then anything queued while it ran
+  const key = sessionKey(from, sessionName);
+  markBusy(key);
+  try {
+    if (await continueSession(from, sessionName, { text, media, messageId }, buttonId)) {
+      await runQueuedTurns(from, sessionName);
     }
-
-    // Interrupt any ongoing processing before sending new message
-    interruptSession(from);
-
-    // Create message buffer for batching responses
-    const buffer = new MessageBuffer(async (text) => {
-      await sendWhatsAppMessage(from, text);
-    });
-
-    // Send message and stream responses
-    await sendMessage(
-      client,
-      from,
-      text,
-      (responseText) => {
-        buffer.append(responseText);
-      },
-      async (tool) => {
-        // Combine any pending text with tool message
-        const pendingText = buffer.take();
-        const toolMessage = formatToolMessage(tool);
-        const message = pendingText ? `${pendingText}\n${toolMessage}` : toolMessage;
-        await sendWhatsAppMessage(from, message);
-      }
-    );
-
-    // Flush any remaining buffered content
-    await buffer.flush();
-
-    // Reset inactivity timeout (5 minutes from now)
-    await client.setTimeout(30 * 60 * 1000); // 30 minutes
-  } catch (error) {
-    console.error("Error handling message:", error);
-    await killClient(from);
-
-    const errorMessage =
-      error instanceof Error ? error.message : "Unknown error";
-    await sendWhatsAppMessage(
-      from,
-      `Something went wrong: ${errorMessage.slice(0, 200)}`
-    );
+  } finally {
+    markIdle(key);
   }
 }
 
@@ -1,12 +1,26 @@
 import "dotenv/config";
+import crypto from "crypto";
 import express from "express";
 import {
   initKapso,
   verifyWebhookSignature,
   parseWebhookPayload,
+  parseStatusUpdates,
+  recordDeliveryStatus,
+  getDeliveryMetrics,
   type KapsoWebhookPayload,
 } from "./kapso.js";
-import { handleMessage, startCleanupInterval } from "./handler.js";
+import { handleMessage, restoreState, startCleanupInterval } from "./handler.js";
+import { checkInbound, reportSkipped } from "./dedupe.js";
+import { noteInbound } from "./service-window.js";
+import { startPullRequestPolling } from "./pull-requests.js";
+import { getMcpRegistry } from "./mcp-registry.js";
+import { getServerAgents } from "./agent-definitions.js";
+import {
+  handleGitHubEvent,
+  verifyGitHubSignature,
+  type GitHubWebhookPayload,
+} from "./github-webhook.js";
 
 // Validate required environment variables
 const requiredEnvVars = [
@@ -31,6 +45,26 @@ initKapso({
   webhookSecret: process.env.WEBHOOK_SECRET!,
 });
 
+if (!process.env.ADMIN_NUMBERS) {
+  console.warn("ADMIN_NUMBERS is not set - anyone who messages this number can use it");
+}
+
+// A malformed registry must not look like "no servers configured"
+try {
+  getMcpRegistry();
+} catch (error) {
+  console.error(`Invalid MCP_SERVERS_FILE: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
+// Same for server-wide subagents
+try {
+  getServerAgents();
+} catch (error) {
+  console.error(`Invalid AGENTS_FILE: ${error instanceof Error ? error.message : error}`);
+  process.exit(1);
+}
+
 // Create Express app
 const app = express();
 
@@ -48,6 +82,31 @@ app.get("/health", (_req, res) => {
   res.json({ status: "ok" });
 });
 
+/** Whether the request carries `Authorization: Bearer <METRICS_TOKEN>` */
+function hasMetricsToken(req: express.Request): boolean {
+  const expected = `Bearer ${process.env.METRICS_TOKEN}`;
+  const header = req.headers.authorization || "";
+  try {
+    return crypto.timingSafeEqual(Buffer.from(header), Buffer.from(expected));
+  } catch {
+    return false;
+  }
+}
+
+// Outbound delivery counters (sends, retries, failures by category, read receipts)
+app.get("/metrics", (req, res) => {
+  // Failure messages can include phone numbers and message text
+  if (!process.env.METRICS_TOKEN) {
+    res.status(503).json({ error: "Metrics are not configured" });
+    return;
+  }
+  if (!hasMetricsToken(req)) {
+    res.status(401).json({ error: "Invalid token" });
+    return;
+  }
+  res.json({ whatsapp: getDeliveryMetrics() });
+});
+
 // Webhook endpoint for Kapso
 app.post("/webhook", (req, res) => {
   const signature = req.headers["x-webhook-signature"];
@@ -69,7 +128,29 @@ app.post("/webhook", (req, res) => {
   const payload = req.body as KapsoWebhookPayload;
   const messages = parseWebhookPayload(payload);
 
+  for (const update of parseStatusUpdates(payload)) {
+    recordDeliveryStatus(update);
+  }
+
   for (const message of messages) {
+    // Kapso retries and duplicate deliveries must not run the same task twice
+    const verdict = checkInbound(message);
+    if (verdict === "duplicate") {
+      console.log(`Skipping duplicate message ${message.messageId} from ${message.from}`);
+      continue;
+    }
+
+    // Any reply reopens the 24-hour window (and sends output held while it was closed)
+    noteInbound(message);
+
+    if (verdict !== "new") {
+      console.log(`Skipping ${verdict} message ${message.messageId} from ${message.from}`);
+      reportSkipped(message, verdict).catch((error) => {
+        console.error("Error reporting skipped message:", error);
+      });
+      continue;
+    }
+
     // Process each message asynchronously
     handleMessage(message).catch((error) => {
       console.error("Error processing message:", error);
@@ -77,6 +158,48 @@ app.post("/webhook", (req, res) => {
   }
 });
 
+// Webhook endpoint for GitHub (issues, PR review comments, check runs)
+app.post("/github/webhook", (req, res) => {
+  const signature = req.headers["x-hub-signature-256"];
+  const rawBody = (req as express.Request & { rawBody: string }).rawBody;
+
+  // Unsigned events could offer attacker-written tasks to any contact
+  if (!process.env.GITHUB_WEBHOOK_SECRET) {
+    console.warn("GitHub webhook received but GITHUB_WEBHOOK_SECRET is not set - ignoring it");
+    res.status(503).json({ error: "GitHub webhook is not configured" });
+    return;
+  }
+
+  if (typeof signature !== "string" || !verifyGitHubSignature(rawBody, signature)) {
+    console.warn("Invalid GitHub webhook signature");
+    res.status(401).json({ error: "Invalid signature" });
+    return;
+  }
+
+  // Respond immediately - process async
+  res.status(200).json({ status: "received" });
+
+  const event = req.headers["x-github-event"];
+  const deliveryId = req.headers["x-github-delivery"];
+  handleGitHubEvent(
+    typeof event === "string" ? event : "",
+    typeof deliveryId === "string" ? deliveryId : "",
+    req.body as GitHubWebhookPayload
+  ).catch((error) => {
+    console.error("Error processing GitHub event:", error);
+  });
+});
+
+// Rehydrate sessions saved by the previous process before accepting messages
+try {
+  const restored = await restoreState();
+  console.log(
+    `Restored ${restored.sessions} session(s), ${restored.pending} pending repo selection(s), ${restored.users} user(s), ${restored.identities} GitHub login(s) and ${restored.pullRequests} tracked PR(s)`
+  );
+} catch (error) {
+  console.error("Failed to restore sessions:", error);
+}
+
 // Start server
 const port = process.env.PORT ? parseInt(process.env.PORT) : 3001;
 
@@ -87,6 +210,9 @@ app.listen(port, () => {
 // Start periodic cleanup
 startCleanupInterval();
 
+// Follow up on opened PRs (CI results, reviews, comments)
+startPullRequestPolling();
+
 // Handle graceful shutdown
 process.on("SIGTERM", () => process.exit(0));
 process.on("SIGINT", () => process.exit(0));
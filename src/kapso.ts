@@ -1,5 +1,6 @@
 import crypto from "crypto";
-import { WhatsAppClient } from "@kapso/whatsapp-cloud-api";
+import { GraphApiError, WhatsAppClient } from "@kapso/whatsapp-cloud-api";
+import { splitMessage } from "./formatter.js";
 
 const KAPSO_API_BASE = "https://api.kapso.ai";
 
@@ -20,16 +21,436 @@ export function initKapso(cfg: KapsoConfig) {
   });
 }
 
+// Outbound queue
+//
+// Sends to a contact go out one at a time, in the order they were made, so
+// tool messages and replies can't overtake each other. Transient Kapso/Meta
+// errors are retried with backoff.
+
+// Attempts per message before giving up
+const SEND_ATTEMPTS = 4;
+
+// Minimum gap between two messages to the same contact (WhatsApp throttles
+// bursts to a single user)
+const SEND_INTERVAL_MS = Number(process.env.WHATSAPP_SEND_INTERVAL_MS) || 1000;
+
+// Sent messages whose delivery status is kept (oldest are dropped first)
+const MAX_TRACKED_MESSAGES = 1000;
+
+export type DeliveryStatus = "sent" | "delivered" | "read" | "failed";
+
+const STATUS_ORDER: DeliveryStatus[] = ["sent", "delivered", "read"];
+
+type DeliveryMetrics = {
+  sent: number;
+  retried: number;
+  /** Sends that gave up after retrying (or weren't retryable) */
+  failed: number;
+  /** Failures by error category (throttling, reengagementWindow, server...) */
+  failuresByCategory: Record<string, number>;
+  /** Status webhooks for our messages */
+  delivered: number;
+  read: number;
+  /** Accepted by WhatsApp, then reported undeliverable by a status webhook */
+  undelivered: number;
+  lastFailure?: { at: string; category: string; message: string };
+  /** Contacts with sends waiting or in flight */
+  queued: number;
+};
+
+// The tail of each contact's queue
+const outbox = new Map<string, Promise<unknown>>();
+const lastSentAt = new Map<string, number>();
+const deliveries = new Map<string, { to: string; status: DeliveryStatus }>();
+
+const metrics: DeliveryMetrics = {
+  sent: 0,
+  retried: 0,
+  failed: 0,
+  failuresByCategory: {},
+  delivered: 0,
+  read: 0,
+  undelivered: 0,
+  queued: 0,
+};
+
+export function getDeliveryMetrics(): DeliveryMetrics {
+  return { ...metrics, failuresByCategory: { ...metrics.failuresByCategory }, queued: outbox.size };
+}
+
+/** Status of a message we sent, from delivery webhooks */
+export function getDeliveryStatus(messageId: string): DeliveryStatus | undefined {
+  return deliveries.get(messageId)?.status;
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/** Run `task` after everything already queued for `to` */
+function enqueue<T>(to: string, task: () => Promise<T>): Promise<T> {
+  const previous = outbox.get(to) || Promise.resolve();
+  const result = previous.then(task);
+  const tail = result.catch(() => {});
+  outbox.set(to, tail);
+  // Drop the entry once the queue drains
+  tail.then(() => {
+    if (outbox.get(to) === tail) outbox.delete(to);
+  });
+  return result;
+}
+
+function errorCategory(error: unknown): string {
+  return error instanceof GraphApiError ? error.category : "network";
+}
+
+/** Delay before retrying, or null if the error won't go away by itself */
+function retryDelay(error: unknown, attempt: number): number | null {
+  const backoff = 1000 * 2 ** (attempt - 1);
+  // Network errors (fetch failed, timeouts) have no Graph error attached
+  if (!(error instanceof GraphApiError)) return backoff;
+
+  switch (error.retry.action) {
+    case "retry":
+      return backoff;
+    case "retry_after":
+      return Math.max(error.retry.retryAfterMs ?? 0, backoff);
+    default:
+      return null;
+  }
+}
+
+/** Send one request to a contact, spaced out and retried on transient errors */
+async function attempt<T>(
+  to: string,
+  request: () => Promise<T>
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    const wait = (lastSentAt.get(to) ?? 0) + SEND_INTERVAL_MS - Date.now();
+    if (wait > 0) await sleep(wait);
+
+    try {
+      const response = await request();
+      lastSentAt.set(to, Date.now());
+      trackDelivery(to, response);
+      return response;
+    } catch (error) {
+      const delay = retryDelay(error, attempt);
+      if (delay === null || attempt >= SEND_ATTEMPTS) {
+        const category = errorCategory(error);
+        metrics.failed++;
+        metrics.failuresByCategory[category] = (metrics.failuresByCategory[category] ?? 0) + 1;
+        metrics.lastFailure = {
+          at: new Date().toISOString(),
+          category,
+          message: error instanceof Error ? error.message.slice(0, 200) : String(error),
+        };
+        throw error;
+      }
+      metrics.retried++;
+      console.warn(
+        `WhatsApp send to ${to} failed (attempt ${attempt}), retrying in ${delay}ms:`,
+        error instanceof Error ? error.message : error
+      );
+      await sleep(delay);
+    }
+  }
+}
+
+function trackDelivery(to: string, response: unknown): void {
+  // Media uploads have no message ID
+  const messageId = (response as { messages?: Array<{ id: string }> }).messages?.[0]?.id;
+  if (!messageId) return;
+  metrics.sent++;
+  deliveries.set(messageId, { to, status: "sent" });
+  if (deliveries.size > MAX_TRACKED_MESSAGES) {
+    deliveries.delete(deliveries.keys().next().value!);
+  }
+}
+
+/** Apply a delivered/read/failed webhook to a message we sent */
+export function recordDeliveryStatus(update: StatusUpdate): void {
+  const delivery = deliveries.get(update.messageId);
+  if (!delivery) return;
+
+  if (update.status === "failed") {
+    if (delivery.status !== "failed") metrics.undelivered++;
+    delivery.status = "failed";
+    console.warn(`WhatsApp message ${update.messageId} to ${delivery.to} was not delivered`);
+    return;
+  }
+
+  // Webhooks can arrive out of order: never go back from read to delivered
+  if (STATUS_ORDER.indexOf(update.status) <= STATUS_ORDER.indexOf(delivery.status)) return;
+  if (update.status === "read" && delivery.status === "sent") metrics.delivered++;
+  metrics[update.status]++;
+  delivery.status = update.status;
+}
+
+// Customer service window
+//
+// WhatsApp only allows free-form messages within 24 hours of the contact's
+// last message. Outside it, free-form sends are held, a template message asks
+// the user to reply, and the held messages go out once they do.
+
+// Closes a little early so sends already queued still make it
+const SERVICE_WINDOW_MS = 24 * 60 * 60 * 1000 - 5 * 60 * 1000;
+
+// More held text messages than this go out as one document
+const MAX_HELD_MESSAGES = 50;
+
+/** A free-form send, as plain data so it can be held and persisted */
+export type OutboundMessage =
+  | { type: "text"; text: string }
+  | {
+      type: "buttons";
+      header?: string;
+      body: string;
+      footer?: string;
+      buttons: InteractiveButton[];
+    }
+  | {
+      type: "list";
+      header?: string;
+      body: string;
+      footer?: string;
+      buttonText: string;
+      sectionTitle?: string;
+      rows: ListRow[];
+    }
+  | {
+      type: "document";
+      filename: string;
+      /** Strings are text unless `encoding` is "base64" */
+      content: Blob | ArrayBuffer | string;
+      encoding?: "base64";
+      mimeType: string;
+      caption?: string;
+    };
+
+// When each contact last wrote to us (0 once WhatsApp says the window is closed)
+const lastInboundAt = new Map<string, number>();
+
+// Free-form sends waiting for the contact to reopen the window
+const held = new Map<string, OutboundMessage[]>();
+
+let heldListener: ((contactId: string, messages: OutboundMessage[]) => void) | undefined;
+
+/** Be told whenever a contact's held messages change (empty once sent), to persist them */
+export function onHeldMessagesChange(listener: (contactId: string, messages: OutboundMessage[]) => void): void {
+  heldListener = listener;
+}
+
+/** Put back messages held before a restart (their template was already sent) */
+export function restoreHeldMessages(contactId: string, messages: OutboundMessage[]): void {
+  if (messages.length > 0) held.set(contactId, messages);
+}
+
+/** Whether free-form messages can be sent. Contacts we know nothing about get the benefit of the doubt */
+export function isWindowOpen(to: string): boolean {
+  const at = lastInboundAt.get(to);
+  return at === undefined || Date.now() - at < SERVICE_WINDOW_MS;
+}
+
+/**
+ * Record a message from the contact, sending anything held while the window
+ * was closed. Returns false if we already know of a newer one.
+ */
+export function recordInbound(contactId: string, at = Date.now()): boolean {
+  if (at <= (lastInboundAt.get(contactId) ?? -1)) return false;
+  lastInboundAt.set(contactId, at);
+
+  const messages = held.get(contactId);
+  if (!messages || !isWindowOpen(contactId)) return true;
+  held.delete(contactId);
+  heldListener?.(contactId, []);
+  console.log(`Sending ${messages.length} held message(s) to ${contactId}`);
+  for (const message of collapseHeld(messages)) {
+    deliver(contactId, message).catch((error) => console.error("Failed to send held message:", error));
+  }
+  return true;
+}
+
+/** A long backlog of text goes out as one document rather than dozens of messages */
+function collapseHeld(messages: OutboundMessage[]): OutboundMessage[] {
+  const texts = messages.flatMap((message) => (message.type === "text" ? [message.text] : []));
+  if (texts.length <= MAX_HELD_MESSAGES) return messages;
+  return [
+    {
+      type: "document",
+      filename: "held-messages.md",
+      content: texts.join("\n\n---\n\n"),
+      mimeType: "text/markdown",
+      caption: `📄 ${texts.length} messages from while you were away`,
+    },
+    ...messages.filter((message) => message.type !== "text"),
+  ];
+}
+
+function hold(to: string, message: OutboundMessage): void {
+  const messages = held.get(to) || [];
+  messages.push(message);
+  held.set(to, messages);
+  heldListener?.(to, messages);
+
+  // One template per closed window
+  if (messages.length === 1) {
+    sendWindowTemplate(to).catch((error) => console.error("Failed to send template message:", error));
+  }
+}
+
+async function sendWindowTemplate(to: string): Promise<void> {
+  const name = process.env.WINDOW_TEMPLATE_NAME;
+  if (!name) {
+    console.warn(`WINDOW_TEMPLATE_NAME is not set - holding messages for ${to} until they write again`);
+    return;
+  }
+  await sendTemplateMessage(to, {
+    name,
+    language: process.env.WINDOW_TEMPLATE_LANGUAGE || "en_US",
+  });
+}
+
+/**
+ * Queue a free-form send, or hold it if the window is closed. Held sends
+ * resolve right away with no response, so callers don't wait for the user.
+ */
+function deliver(to: string, message: OutboundMessage): Promise<unknown> {
+  if (!isWindowOpen(to)) {
+    hold(to, message);
+    return Promise.resolve(undefined);
+  }
+
+  return enqueue(to, async () => {
+    try {
+      return await send(to, message);
+    } catch (error) {
+      // We thought the window was open (e.g. no inbound seen since a restart)
+      if (errorCategory(error) !== "reengagementWindow") throw error;
+      lastInboundAt.set(to, 0);
+      hold(to, message);
+      return undefined;
+    }
+  });
+}
+
+function send(to: string, message: OutboundMessage): Promise<unknown> {
+  switch (message.type) {
+    case "text":
+      return sendText(to, message.text);
+    case "buttons":
+      return sendButtons(to, message);
+    case "list":
+      return sendList(to, message);
+    case "document":
+      return sendDocument(to, message);
+  }
+}
+
+/**
+ * Send an approved template message. Templates can be sent outside the
+ * 24-hour window; `parameters` fill the body's {{1}}, {{2}}...
+ */
+export async function sendTemplateMessage(
+  to: string,
+  template: { name: string; language: string; parameters?: string[] }
+) {
+  const parameters = template.parameters || [];
+  return enqueue(to, () =>
+    attempt(to, () =>
+      whatsapp.messages.sendTemplate({
+        phoneNumberId: config.phoneNumberId,
+        to,
+        template: {
+          name: template.name,
+          language: { code: template.language },
+          components:
+            parameters.length > 0
+              ? [{ type: "body", parameters: parameters.map((text) => ({ type: "text", text })) }]
+              : undefined,
+        },
+      })
+    )
+  );
+}
+
 // WhatsApp messaging
 
+function sendText(to: string, text: string) {
+  return attempt(to, () =>
+    whatsapp.messages.sendText({
+      phoneNumberId: config.phoneNumberId,
+      to,
+      body: text,
+    })
+  );
+}
+
 export async function sendWhatsAppMessage(to: string, text: string) {
-  return whatsapp.messages.sendText({
-    phoneNumberId: config.phoneNumberId,
-    to,
-    body: text,
+  return deliver(to, { type: "text", text });
+}
+
+/** Upload a file and send it as a WhatsApp document */
+export async function sendWhatsAppDocument(
+  to: string,
+  document: {
+    filename: string;
+    content: Blob | ArrayBuffer | string;
+    mimeType?: string;
+    caption?: string;
+  }
+) {
+  return deliver(to, {
+    type: "document",
+    filename: document.filename,
+    content: document.content,
+    mimeType: document.mimeType || "text/plain",
+    caption: document.caption,
   });
 }
 
+async function sendDocument(to: string, document: Extract<OutboundMessage, { type: "document" }>) {
+  const { content, mimeType } = document;
+  const file =
+    typeof content === "string"
+      ? new Blob([document.encoding === "base64" ? Buffer.from(content, "base64") : content], { type: mimeType })
+      : content;
+
+  const upload = await attempt(to, () =>
+    whatsapp.media.upload({
+      phoneNumberId: config.phoneNumberId,
+      type: mimeType,
+      file,
+      fileName: document.filename,
+    })
+  );
+
+  return attempt(to, () =>
+    whatsapp.messages.sendDocument({
+      phoneNumberId: config.phoneNumberId,
+      to,
+      document: {
+        id: upload.id,
+        filename: document.filename,
+        caption: document.caption?.slice(0, 1024), // Caption max 1024 chars
+      },
+    })
+  );
+}
+
+/** React to a message with an emoji (an empty emoji removes the reaction) */
+export async function sendReaction(to: string, messageId: string, emoji: string) {
+  // A status reaction is stale by the time the user is back
+  if (!isWindowOpen(to)) return undefined;
+  return enqueue(to, () =>
+    attempt(to, () =>
+      whatsapp.messages.sendReaction({
+        phoneNumberId: config.phoneNumberId,
+        to,
+        reaction: { messageId, emoji },
+      })
+    )
+  );
+}
+
 export async function markAsReadWithTyping(messageId: string) {
   return whatsapp.messages.markRead({
     phoneNumberId: config.phoneNumberId,
@@ -38,6 +459,55 @@ export async function markAsReadWithTyping(messageId: string) {
   });
 }
 
+// Media
+
+/** Download inbound media (voice notes, images, documents) by its WhatsApp media ID */
+export async function downloadMedia(mediaId: string): Promise<ArrayBuffer> {
+  return (await whatsapp.media.download({
+    mediaId,
+    phoneNumberId: config.phoneNumberId,
+    as: "arrayBuffer",
+  })) as ArrayBuffer;
+}
+
+/** Look up the MIME type and size of inbound media without downloading it */
+export async function getMediaInfo(
+  mediaId: string
+): Promise<{ mimeType: string; fileSize: number }> {
+  const info = await whatsapp.media.get({
+    mediaId,
+    phoneNumberId: config.phoneNumberId,
+  });
+  return { mimeType: info.mimeType, fileSize: Number(info.fileSize) };
+}
+
+// WhatsApp limits for interactive messages
+const INTERACTIVE_BODY_MAX_LENGTH = 1024;
+const INTERACTIVE_HEADER_MAX_LENGTH = 60;
+const INTERACTIVE_FOOTER_MAX_LENGTH = 60;
+
+/**
+ * Interactive bodies max out at 1024 chars: what doesn't fit goes out as
+ * separate text messages first, each delivered (or held) on its own so a
+ * retried interactive never repeats them. Returns the part that goes with the
+ * buttons.
+ */
+function deliverOverflow(to: string, body: string): string {
+  const parts = splitMessage(body, INTERACTIVE_BODY_MAX_LENGTH);
+  for (const part of parts.slice(0, -1)) {
+    deliver(to, { type: "text", text: part }).catch((error) =>
+      console.error("Failed to send message:", error)
+    );
+  }
+  return parts[parts.length - 1];
+}
+
+function interactiveHeader(header: string | undefined) {
+  return header
+    ? { type: "text" as const, text: header.slice(0, INTERACTIVE_HEADER_MAX_LENGTH) }
+    : undefined;
+}
+
 type InteractiveButton = {
   id: string;
   title: string;
@@ -52,14 +522,20 @@ export async function sendInteractiveButtons(
     buttons: InteractiveButton[];
   }
 ) {
-  return whatsapp.messages.sendInteractiveButtons({
-    phoneNumberId: config.phoneNumberId,
-    to,
-    header: options.header ? { type: "text", text: options.header } : undefined,
-    bodyText: options.body,
-    footerText: options.footer,
-    buttons: options.buttons,
-  });
+  return deliver(to, { type: "buttons", ...options, body: deliverOverflow(to, options.body) });
+}
+
+function sendButtons(to: string, message: Extract<OutboundMessage, { type: "buttons" }>) {
+  return attempt(to, () =>
+    whatsapp.messages.sendInteractiveButtons({
+      phoneNumberId: config.phoneNumberId,
+      to,
+      header: interactiveHeader(message.header),
+      bodyText: message.body,
+      footerText: message.footer?.slice(0, INTERACTIVE_FOOTER_MAX_LENGTH),
+      buttons: message.buttons,
+    })
+  );
 }
 
 type ListRow = {
@@ -79,20 +555,26 @@ export async function sendInteractiveList(
     rows: ListRow[];
   }
 ) {
-  return whatsapp.messages.sendInteractiveList({
-    phoneNumberId: config.phoneNumberId,
-    to,
-    header: options.header ? { type: "text", text: options.header } : undefined,
-    bodyText: options.body,
-    footerText: options.footer,
-    buttonText: options.buttonText,
-    sections: [
-      {
-        title: options.sectionTitle,
-        rows: options.rows,
-      },
-    ],
-  });
+  return deliver(to, { type: "list", ...options, body: deliverOverflow(to, options.body) });
+}
+
+function sendList(to: string, message: Extract<OutboundMessage, { type: "list" }>) {
+  return attempt(to, () =>
+    whatsapp.messages.sendInteractiveList({
+      phoneNumberId: config.phoneNumberId,
+      to,
+      header: interactiveHeader(message.header),
+      bodyText: message.body,
+      footerText: message.footer?.slice(0, INTERACTIVE_FOOTER_MAX_LENGTH),
+      buttonText: message.buttonText,
+      sections: [
+        {
+          title: message.sectionTitle,
+          rows: message.rows,
+        },
+      ],
+    })
+  );
 }
 
 // Webhook signature verification
@@ -211,7 +693,12 @@ export async function dbDelete(
 
 export type KapsoWebhookPayload = {
   // Batched format
-  type?: "whatsapp.message.received" | "whatsapp.message.sent" | "whatsapp.message.delivered" | "whatsapp.message.read";
+  type?:
+    | "whatsapp.message.received"
+    | "whatsapp.message.sent"
+    | "whatsapp.message.delivered"
+    | "whatsapp.message.read"
+    | "whatsapp.message.failed";
   batch?: boolean;
   data?: Array<{
     message: KapsoMessage;
@@ -230,6 +717,9 @@ type KapsoMessage = {
   timestamp: string;
   type: "text" | "image" | "audio" | "video" | "document" | "location" | "interactive" | "button";
   text?: { body: string };
+  audio?: { id: string; mime_type?: string; voice?: boolean };
+  image?: { id: string; mime_type?: string; caption?: string };
+  document?: { id: string; mime_type?: string; filename?: string; caption?: string };
   interactive?: {
     type: "button_reply" | "list_reply";
     button_reply?: { id: string; title: string };
@@ -253,16 +743,37 @@ type KapsoConversation = {
   phone_number: string;
 };
 
+export type InboundMedia = {
+  type: "audio" | "image" | "document";
+  id: string;
+  mimeType?: string;
+  filename?: string;
+};
+
 export type ParsedMessage = {
   from: string;
   text: string;
   messageId: string;
+  /** When the user sent it (ms since epoch), if the webhook says */
+  timestamp?: number;
   buttonId?: string;
+  media?: InboundMedia;
 };
 
+/** WhatsApp timestamps are Unix seconds as a string; Kapso may send ISO dates */
+function parseTimestamp(timestamp: string | undefined): number | undefined {
+  if (!timestamp) return undefined;
+  const ms = /^\d+$/.test(timestamp) ? Number(timestamp) * 1000 : Date.parse(timestamp);
+  return Number.isNaN(ms) ? undefined : ms;
+}
+
 function parseMessage(msg: KapsoMessage): ParsedMessage | null {
   if (msg.kapso?.direction !== "inbound") return null;
+  const parsed = parseContent(msg);
+  return parsed && { ...parsed, timestamp: parseTimestamp(msg.timestamp) };
+}
 
+function parseContent(msg: KapsoMessage): ParsedMessage | null {
   // Get phone number from either format
   const from = msg.from || msg.kapso?.phone_number;
   if (!from) return null;
@@ -272,6 +783,41 @@ function parseMessage(msg: KapsoMessage): ParsedMessage | null {
     return { from, text: msg.text.body, messageId: msg.id };
   }
 
+  // Voice note or audio file (transcribed by the handler)
+  if (msg.type === "audio" && msg.audio?.id) {
+    return {
+      from,
+      text: "",
+      messageId: msg.id,
+      media: { type: "audio", id: msg.audio.id, mimeType: msg.audio.mime_type },
+    };
+  }
+
+  // Image or screenshot, with optional caption as the prompt
+  if (msg.type === "image" && msg.image?.id) {
+    return {
+      from,
+      text: msg.image.caption || "",
+      messageId: msg.id,
+      media: { type: "image", id: msg.image.id, mimeType: msg.image.mime_type },
+    };
+  }
+
+  // Document (PDF, CSV, patch, log, zip...) to be written into the workspace
+  if (msg.type === "document" && msg.document?.id) {
+    return {
+      from,
+      text: msg.document.caption || "",
+      messageId: msg.id,
+      media: {
+        type: "document",
+        id: msg.document.id,
+        mimeType: msg.document.mime_type,
+        filename: msg.document.filename,
+      },
+    };
+  }
+
   // Interactive button reply
   if (msg.type === "interactive" && msg.interactive?.button_reply) {
     return {
@@ -328,3 +874,34 @@ export function parseWebhookPayload(payload: KapsoWebhookPayload): ParsedMessage
 
   return messages;
 }
+
+export type StatusUpdate = {
+  messageId: string;
+  status: "delivered" | "read" | "failed";
+};
+
+const STATUS_EVENTS: Record<string, StatusUpdate["status"]> = {
+  "whatsapp.message.delivered": "delivered",
+  "whatsapp.message.read": "read",
+  "whatsapp.message.failed": "failed",
+};
+
+/** Delivery status changes for outbound messages (delivered, read, failed) */
+export function parseStatusUpdates(payload: KapsoWebhookPayload): StatusUpdate[] {
+  // Batched format: the event type carries the status
+  if (payload.type && payload.data) {
+    const status = STATUS_EVENTS[payload.type];
+    if (!status) return [];
+    return payload.data.map((item) => ({ messageId: item.message.id, status }));
+  }
+
+  // Single message format: the status is on the message
+  const status = payload.message?.kapso?.status;
+  if (
+    payload.message?.kapso?.direction === "outbound" &&
+    (status === "delivered" || status === "read" || status === "failed")
+  ) {
+    return [{ messageId: payload.message.id, status }];
+  }
+  return [];
+}
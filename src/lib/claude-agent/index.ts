@@ -8,6 +8,7 @@
  * - pause() method
  * - static connect() to resume paused sandboxes
  * - setTimeout() to extend timeout
+ * - updateConfig() to change model/budgets of a running session
  */
 
 import { Sandbox, type FilesystemEvent } from "e2b";
@@ -15,6 +16,7 @@ import { Sandbox, type FilesystemEvent } from "e2b";
 import { DEFAULT_TEMPLATE, SERVER_PORT, WORKSPACE_DIR_NAME } from "./const.js";
 import type {
   ClientOptions,
+  QueryConfig,
   WatchHandle,
   WSInputMessage,
   WSOutputMessage,
@@ -150,6 +152,33 @@ export class ClaudeAgentClient {
     await this.connectWebSocket(wsUrl);
   }
 
+  /**
+   * Update the running server's query config (model, budgets...). The
+   * conversation is kept; the server applies the change in place.
+   */
+  async updateConfig(config: Partial<QueryConfig>): Promise<void> {
+    if (!this.sandbox) {
+      throw new Error("Client not started");
+    }
+
+    this.options = { ...this.options, ...config };
+
+    const sandboxHost = this.sandbox.getHost(SERVER_PORT);
+    const response = await fetch(`https://${sandboxHost}/config`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({
+        anthropicApiKey: this.options.anthropicApiKey || process.env.ANTHROPIC_API_KEY,
+        ...this.options,
+      }),
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Failed to update server config: ${error}`);
+    }
+  }
+
   private async connectWebSocket(wsUrl: string, retries = 4): Promise<void> {
     const delays = [100, 250, 500, 1000];
     let lastError: Error | null = null;
@@ -0,0 +1,118 @@
+import { readFileSync } from "fs";
+import type { ClaudeAgentClient, McpRemoteServerConfig } from "./lib/claude-agent/index.js";
+
+// Per-repo settings file, read from the root of the cloned workspace
+const REPO_CONFIG_FILE = ".whatsapp-claude.json";
+
+/** A remote MCP server from MCP_SERVERS_FILE */
+export type McpServerEntry = {
+  name: string;
+  description?: string;
+  config: McpRemoteServerConfig;
+  /** Repos may ask for it in .whatsapp-claude.json */
+  allowRepo: boolean;
+  /** Its URL or headers use the server's environment (${VAR}), usually a token */
+  usesSecrets: boolean;
+};
+
+type McpServersFile = Record<
+  string,
+  {
+    type?: string;
+    url?: string;
+    headers?: Record<string, string>;
+    description?: string;
+    allowRepo?: boolean;
+  }
+>;
+
+let registry: Map<string, McpServerEntry> | undefined;
+
+/**
+ * Load the MCP server registry from MCP_SERVERS_FILE (JSON keyed by server
+ * name). Invalid entries are skipped with a warning; an unreadable file
+ * throws (call once at startup).
+ */
+export function getMcpRegistry(): Map<string, McpServerEntry> {
+  if (registry) return registry;
+
+  const path = process.env.MCP_SERVERS_FILE;
+  if (!path) return (registry = new Map());
+
+  const servers = JSON.parse(readFileSync(path, "utf8")) as McpServersFile;
+  const entries = new Map<string, McpServerEntry>();
+  for (const [name, server] of Object.entries(servers)) {
+    if ((server.type !== "http" && server.type !== "sse") || !server.url) {
+      console.warn(`Skipping MCP server "${name}": needs type "http" or "sse" and a url`);
+      continue;
+    }
+    entries.set(name, {
+      name,
+      description: server.description,
+      config: { type: server.type, url: server.url, headers: server.headers },
+      allowRepo: server.allowRepo === true,
+      usesSecrets: [server.url, ...Object.values(server.headers || {})].some((value) =>
+        /\$\{\w+\}/.test(value)
+      ),
+    });
+  }
+  return (registry = entries);
+}
+
+/** Replace ${VAR} with the server's environment, so secrets never leave it in config files */
+function interpolate(value: string): string {
+  return value.replace(/\$\{(\w+)\}/g, (_, name: string) => process.env[name] || "");
+}
+
+/**
+ * The `mcpServers` option for a set of registry names. Unknown names are
+ * ignored, and read-only sessions don't get servers that carry secrets.
+ */
+export function resolveMcpServers(
+  names: string[],
+  options: { readOnly?: boolean } = {}
+): Record<string, McpRemoteServerConfig> {
+  const servers: Record<string, McpRemoteServerConfig> = {};
+  for (const name of new Set(names)) {
+    const entry = getMcpRegistry().get(name);
+    if (!entry || (options.readOnly && entry.usesSecrets)) continue;
+
+    const { config } = entry;
+    servers[name] = {
+      ...config,
+      url: interpolate(config.url),
+      headers: config.headers
+        ? Object.fromEntries(
+            Object.entries(config.headers).map(([key, value]) => [key, interpolate(value)])
+          )
+        : undefined,
+    };
+  }
+  return servers;
+}
+
+/**
+ * Registry servers the repo asks for in .whatsapp-claude.json
+ * (`{ "mcpServers": ["linear"] }`). Repos can only pick servers by name, and
+ * only those marked `allowRepo`.
+ */
+export async function readRepoMcpServers(client: ClaudeAgentClient): Promise<string[]> {
+  let content: string;
+  try {
+    content = (await client.readFile(REPO_CONFIG_FILE, "text")) as string;
+  } catch {
+    return []; // No config file
+  }
+
+  try {
+    const { mcpServers } = JSON.parse(content) as { mcpServers?: unknown };
+    if (!Array.isArray(mcpServers)) return [];
+    return mcpServers.filter(
+      (name): name is string =>
+        typeof name === "string" && getMcpRegistry().get(name)?.allowRepo === true
+    );
+  } catch (error) {
+    console.warn(`Invalid ${REPO_CONFIG_FILE}:`, error);
+    return [];
+  }
+}
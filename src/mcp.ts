@@ -0,0 +1,87 @@
+import { sendWhatsAppMessage } from "./kapso.js";
+import { canPush } from "./access.js";
+import { getSessionInfo, updateMcpServers } from "./claude.js";
+import { getMcpRegistry } from "./mcp-registry.js";
+import { getPreferences, updatePreferences } from "./preferences.js";
+
+const USAGE = `*MCP commands*
+/mcp list - available servers
+/mcp add <name> - use a server in your sessions
+/mcp remove <name>`;
+
+function describeServers(contactId: string): string {
+  const registry = getMcpRegistry();
+  if (registry.size === 0) {
+    return "No MCP servers are configured on this server.";
+  }
+
+  const { mcpServers } = getPreferences(contactId);
+  const session = getSessionInfo(contactId);
+  const lines = [...registry.values()].map((entry) => {
+    const mark = mcpServers.includes(entry.name)
+      ? "✅"
+      : session?.repoMcpServers.includes(entry.name)
+        ? "📁"
+        : "▫️";
+    return `${mark} *${entry.name}*${entry.description ? ` - ${entry.description}` : ""}`;
+  });
+
+  return `*MCP servers*\n──────────\n${lines.join("\n")}\n\n✅ added by you · 📁 from ${session?.githubRepo || "the repo"}\n\n${USAGE}`;
+}
+
+async function setAttached(contactId: string, name: string, attached: boolean): Promise<string> {
+  const entry = getMcpRegistry().get(name);
+  if (!entry) {
+    return `Unknown MCP server "${name}". Send /mcp list to see the available ones.`;
+  }
+
+  // Read-only users must not reach the tokens in the server's environment
+  if (attached && entry.usesSecrets && !canPush(contactId)) {
+    return `*${name}* uses server credentials, so it isn't available to read-only users.`;
+  }
+
+  const others = getPreferences(contactId).mcpServers.filter((server) => server !== name);
+  const mcpServers = attached ? [...others, name] : others;
+  await updatePreferences(contactId, { mcpServers });
+  await updateMcpServers(contactId, mcpServers, { readOnly: !canPush(contactId) });
+
+  return attached
+    ? `🔌 Added *${name}* to your sessions`
+    : `Removed *${name}* from your sessions`;
+}
+
+/**
+ * Handle /mcp list, /mcp add and /mcp remove. Returns false if `text` isn't
+ * an MCP command.
+ */
+export async function handleMcpCommand(contactId: string, text: string): Promise<boolean> {
+  const [command, subcommand, name] = text.trim().split(/\s+/);
+  if (command.toLowerCase() !== "/mcp") return false;
+
+  try {
+    switch (subcommand?.toLowerCase()) {
+      case undefined:
+      case "list":
+        await sendWhatsAppMessage(contactId, describeServers(contactId));
+        break;
+      case "add":
+      case "remove":
+        await sendWhatsAppMessage(
+          contactId,
+          name ? await setAttached(contactId, name, subcommand.toLowerCase() === "add") : USAGE
+        );
+        break;
+      default:
+        await sendWhatsAppMessage(contactId, USAGE);
+    }
+  } catch (error) {
+    console.error("Error updating MCP servers:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    await sendWhatsAppMessage(
+      contactId,
+      `Failed to update MCP servers: ${errorMessage.slice(0, 200)}`
+    );
+  }
+  return true;
+}
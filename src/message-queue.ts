@@ -0,0 +1,136 @@
+import { sendInteractiveButtons, sendWhatsAppMessage, type InboundMedia } from "./kapso.js";
+import { getPreferences, updatePreferences, type MessageMode } from "./preferences.js";
+
+export type QueuedMessage = {
+  text: string;
+  media?: InboundMedia;
+  /** The WhatsApp message, for status reactions */
+  messageId?: string;
+};
+
+const MODE_PREFIX = "mode:";
+
+const MODE_DESCRIPTIONS: Record<MessageMode, string> = {
+  queue: "New messages wait and run one by one after Claude finishes",
+  interrupt: "New messages stop Claude and run right away",
+  merge: "New messages are combined into one message that runs after Claude finishes (the running turn doesn't see them)",
+};
+
+// Messages waiting for the current turn to finish, keyed by session (see sessionKey)
+const queues = new Map<string, QueuedMessage[]>();
+
+// Turns in progress per session (marked before any await to avoid races)
+const busySessions = new Map<string, number>();
+
+export function isBusy(key: string): boolean {
+  return (busySessions.get(key) ?? 0) > 0;
+}
+
+export function markBusy(key: string): void {
+  busySessions.set(key, (busySessions.get(key) ?? 0) + 1);
+}
+
+export function markIdle(key: string): void {
+  const count = (busySessions.get(key) ?? 0) - 1;
+  if (count > 0) {
+    busySessions.set(key, count);
+  } else {
+    busySessions.delete(key);
+  }
+}
+
+/** Add a message to the session's queue. Returns how many turns are ahead of it */
+export function enqueue(key: string, message: QueuedMessage): number {
+  const queue = queues.get(key) || [];
+  queue.push(message);
+  queues.set(key, queue);
+  // The running turn plus everything queued before this message
+  return queue.length;
+}
+
+/**
+ * Take the next turn to run. In merge mode, consecutive text messages are
+ * combined into a single follow-up; messages with media always run alone.
+ */
+export function takeNext(key: string, mode: MessageMode): QueuedMessage | null {
+  const queue = queues.get(key);
+  if (!queue || queue.length === 0) return null;
+
+  let next: QueuedMessage;
+  if (mode !== "merge" || queue[0].media) {
+    next = queue.shift()!;
+  } else {
+    const end = queue.findIndex((message) => message.media);
+    const batch = queue.splice(0, end === -1 ? queue.length : end);
+    next = {
+      text: batch.map((message) => message.text).join("\n\n"),
+      messageId: batch[batch.length - 1].messageId,
+    };
+  }
+
+  if (queue.length === 0) queues.delete(key);
+  return next;
+}
+
+export function clearQueue(key: string): number {
+  const length = queues.get(key)?.length ?? 0;
+  queues.delete(key);
+  return length;
+}
+
+/** Acknowledge a message that will run after the current turn */
+export async function sendQueuedAck(contactId: string, ahead: number, mode: MessageMode): Promise<void> {
+  await sendWhatsAppMessage(
+    contactId,
+    mode === "merge"
+      ? `⏳ merged into the next follow-up (${ahead} message${ahead === 1 ? "" : "s"})`
+      : `⏳ queued (${ahead} ahead)`
+  );
+}
+
+// /mode command
+
+export function isModeButton(buttonId: string | undefined): boolean {
+  return buttonId?.startsWith(MODE_PREFIX) || false;
+}
+
+function isMessageMode(value: string): value is MessageMode {
+  return Object.hasOwn(MODE_DESCRIPTIONS, value);
+}
+
+async function setMode(contactId: string, mode: MessageMode): Promise<void> {
+  await updatePreferences(contactId, { messageMode: mode });
+  await sendWhatsAppMessage(contactId, `Mode: *${mode}* ✅\n${MODE_DESCRIPTIONS[mode]}`);
+}
+
+/** Handle a mode button reply */
+export async function handleModeButton(contactId: string, buttonId: string): Promise<void> {
+  const mode = buttonId.slice(MODE_PREFIX.length);
+  if (isMessageMode(mode)) {
+    await setMode(contactId, mode);
+  }
+}
+
+/**
+ * Handle /mode [queue|interrupt|merge]. Returns false if `text` isn't a mode command.
+ */
+export async function handleModeCommand(contactId: string, text: string): Promise<boolean> {
+  const [command, arg] = text.trim().toLowerCase().split(/\s+/);
+  if (command !== "/mode") return false;
+
+  if (arg && isMessageMode(arg)) {
+    await setMode(contactId, arg);
+    return true;
+  }
+
+  const current = getPreferences(contactId).messageMode;
+  await sendInteractiveButtons(contactId, {
+    header: "Message mode",
+    body: `What should happen when you send a message while Claude is working?\n\nCurrent: *${current}*\n${MODE_DESCRIPTIONS[current]}`,
+    buttons: (Object.keys(MODE_DESCRIPTIONS) as MessageMode[]).map((mode) => ({
+      id: `${MODE_PREFIX}${mode}`,
+      title: mode[0].toUpperCase() + mode.slice(1),
+    })),
+  });
+  return true;
+}
@@ -0,0 +1,158 @@
+import { sendInteractiveList, sendWhatsAppMessage } from "./kapso.js";
+import {
+  getSessionInfo,
+  updateSessionSettings,
+  type Effort,
+  type SessionSettings,
+} from "./claude.js";
+import { getPreferences, updatePreferences } from "./preferences.js";
+
+const MODEL_PREFIX = "model:";
+
+const DEFAULT_MODELS = ["claude-sonnet-4-5", "claude-opus-4-1", "claude-haiku-4-5"];
+
+const EFFORTS: Effort[] = ["low", "medium", "high"];
+
+/** Models users may pick, from ALLOWED_MODELS (comma-separated) */
+export function getAllowedModels(): string[] {
+  const models = (process.env.ALLOWED_MODELS || "")
+    .split(",")
+    .map((model) => model.trim())
+    .filter(Boolean);
+  return models.length > 0 ? models : DEFAULT_MODELS;
+}
+
+export function isModelButton(buttonId: string | undefined): boolean {
+  return buttonId?.startsWith(MODEL_PREFIX) || false;
+}
+
+function describeSettings(settings: SessionSettings): string {
+  return [
+    `🧠 Model: ${settings.model || "default"}`,
+    `💭 Effort: ${settings.effort || "default"}`,
+    `🔁 Max turns: ${settings.maxTurns ?? "none"}`,
+    `💰 Max spend: ${settings.maxBudgetUsd !== undefined ? `$${settings.maxBudgetUsd.toFixed(2)}` : "none"}`,
+  ].join("\n");
+}
+
+/**
+ * Apply a settings change to the focused session (pushed to its sandbox) and
+ * keep it as the contact's default for new sessions.
+ */
+async function applySettings(contactId: string, update: SessionSettings): Promise<void> {
+  const defaults = { ...getPreferences(contactId).sessionDefaults, ...update };
+  await updatePreferences(contactId, { sessionDefaults: defaults });
+
+  const settings = await updateSessionSettings(contactId, update);
+  const session = getSessionInfo(contactId);
+  await sendWhatsAppMessage(
+    contactId,
+    settings && session
+      ? `Updated *${session.name}* ✅\n──────────\n${describeSettings(settings)}\n\nNew sessions use these settings too.`
+      : `Saved for new sessions ✅\n──────────\n${describeSettings(defaults)}`
+  );
+}
+
+/** Handle a model picked from the /model list */
+export async function handleModelButton(contactId: string, buttonId: string): Promise<void> {
+  const model = buttonId.slice(MODEL_PREFIX.length);
+  if (!getAllowedModels().includes(model)) {
+    await sendWhatsAppMessage(contactId, `${model} isn't available.`);
+    return;
+  }
+  await applySettings(contactId, { model });
+}
+
+const USAGE = `*Model commands*
+/model - pick a model
+/model effort <low|medium|high|default>
+/model turns <n|off> - max turns per session
+/model budget <usd|off> - max spend per session`;
+
+/** Parse "off"/"none" as no limit, otherwise a positive number */
+function parseLimit(value: string | undefined): number | undefined | null {
+  if (!value) return null;
+  if (/^(off|none)$/i.test(value)) return undefined;
+  const number = Number(value.replace(/^\$/, ""));
+  return Number.isFinite(number) && number > 0 ? number : null;
+}
+
+/**
+ * Handle /model, /model <name>, /model effort, /model turns and /model budget.
+ * Returns false if `text` isn't a model command.
+ */
+export async function handleModelCommand(contactId: string, text: string): Promise<boolean> {
+  const [command, subcommand, value] = text.trim().split(/\s+/);
+  if (command.toLowerCase() !== "/model") return false;
+
+  try {
+    switch (subcommand?.toLowerCase()) {
+      case undefined: {
+        const current =
+          getSessionInfo(contactId)?.settings ?? getPreferences(contactId).sessionDefaults;
+        await sendInteractiveList(contactId, {
+          header: "Model",
+          body: `${describeSettings(current)}\n\n${USAGE}`,
+          footer: "Powered by Kapso",
+          buttonText: "Select model",
+          sectionTitle: "Models",
+          rows: getAllowedModels()
+            .slice(0, 10)
+            .map((model) => ({
+              id: `${MODEL_PREFIX}${model}`,
+              title: model.slice(0, 24), // Row title max 24 chars
+              description: model === current.model ? "Current" : undefined,
+            })),
+        });
+        return true;
+      }
+
+      case "effort": {
+        const effort = value?.toLowerCase();
+        if (effort === "default") {
+          await applySettings(contactId, { effort: undefined });
+        } else if (EFFORTS.includes(effort as Effort)) {
+          await applySettings(contactId, { effort: effort as Effort });
+        } else {
+          await sendWhatsAppMessage(contactId, USAGE);
+        }
+        return true;
+      }
+
+      case "turns":
+      case "budget": {
+        const isTurns = subcommand.toLowerCase() === "turns";
+        const limit = parseLimit(value);
+        if (limit === null || (isTurns && limit !== undefined && !Number.isInteger(limit))) {
+          await sendWhatsAppMessage(contactId, USAGE);
+        } else {
+          await applySettings(contactId, isTurns ? { maxTurns: limit } : { maxBudgetUsd: limit });
+        }
+        return true;
+      }
+
+      default: {
+        // /model <name>
+        const model = getAllowedModels().find((m) => m.toLowerCase() === subcommand.toLowerCase());
+        if (!model) {
+          await sendWhatsAppMessage(
+            contactId,
+            `Unknown model. Available: ${getAllowedModels().join(", ")}`
+          );
+        } else {
+          await applySettings(contactId, { model });
+        }
+        return true;
+      }
+    }
+  } catch (error) {
+    console.error("Error updating model settings:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    await sendWhatsAppMessage(
+      contactId,
+      `Failed to update settings: ${errorMessage.slice(0, 200)}`
+    );
+    return true;
+  }
+}
@@ -0,0 +1,67 @@
+import { createStore } from "./store.js";
+import type { SessionSettings } from "./claude.js";
+
+/** How messages sent while Claude is working are handled */
+export type MessageMode = "queue" | "interrupt" | "merge";
+
+/** How much of Claude's tool use is sent to WhatsApp */
+export type Verbosity = "quiet" | "summary" | "full";
+
+export type Preferences = {
+  messageMode: MessageMode;
+  verbosity: Verbosity;
+  /** Repos shown first in the picker ("owner/name") */
+  pinnedRepos: string[];
+  /** Most recently picked repos, newest first */
+  recentRepos: string[];
+  /** Model and budget for new sessions (/model) */
+  sessionDefaults: SessionSettings;
+  /** Registry MCP servers added with /mcp */
+  mcpServers: string[];
+};
+
+const DEFAULT_PREFERENCES: Preferences = {
+  messageMode: "queue",
+  verbosity: "full",
+  pinnedRepos: [],
+  recentRepos: [],
+  sessionDefaults: {},
+  mcpServers: [],
+};
+
+type PreferencesRow = {
+  contact_id: string;
+  data: Partial<Preferences>;
+  updated_at: string;
+};
+
+// Per-contact overrides of the defaults, loaded on boot
+const preferences = new Map<string, Partial<Preferences>>();
+
+const preferencesStore = createStore<PreferencesRow>("whatsapp_preferences", "contact_id");
+
+export async function restorePreferences(): Promise<number> {
+  const rows = await preferencesStore.all();
+  for (const row of rows) {
+    preferences.set(row.contact_id, row.data);
+  }
+  return rows.length;
+}
+
+export function getPreferences(contactId: string): Preferences {
+  return { ...DEFAULT_PREFERENCES, ...preferences.get(contactId) };
+}
+
+export async function updatePreferences(
+  contactId: string,
+  update: Partial<Preferences>
+): Promise<Preferences> {
+  const data = { ...preferences.get(contactId), ...update };
+  preferences.set(contactId, data);
+  await preferencesStore.set(contactId, {
+    contact_id: contactId,
+    data,
+    updated_at: new Date().toISOString(),
+  });
+  return getPreferences(contactId);
+}
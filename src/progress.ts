@@ -0,0 +1,176 @@
+import { sendInteractiveButtons, sendReaction, sendWhatsAppMessage } from "./kapso.js";
+import { getPreferences, updatePreferences, type Verbosity } from "./preferences.js";
+
+const VERBOSE_PREFIX = "verbose:";
+
+const VERBOSITY_DESCRIPTIONS: Record<Verbosity, string> = {
+  quiet: "Only Claude's answers and errors",
+  summary: "Answers, errors and diffs, plus a progress update with tool counts",
+  full: "A message for every tool Claude uses",
+};
+
+// Summary mode sends a progress update at most this often (WhatsApp can't edit messages)
+const PROGRESS_INTERVAL_MS = Number(process.env.PROGRESS_INTERVAL_MS) || 60 * 1000;
+
+type Counter = "reads" | "searches" | "commands" | "edits" | "web" | "other";
+
+const COUNTERS: Array<{ counter: Counter; emoji: string; singular: string; plural: string }> = [
+  { counter: "reads", emoji: "📖", singular: "read", plural: "reads" },
+  { counter: "searches", emoji: "🔍", singular: "search", plural: "searches" },
+  { counter: "commands", emoji: "⚡", singular: "command", plural: "commands" },
+  { counter: "edits", emoji: "📝", singular: "edit", plural: "edits" },
+  { counter: "web", emoji: "🌐", singular: "web lookup", plural: "web lookups" },
+  { counter: "other", emoji: "🔧", singular: "other tool", plural: "other tools" },
+];
+
+const TOOL_COUNTERS: Record<string, Counter> = {
+  Read: "reads",
+  Glob: "searches",
+  Grep: "searches",
+  Bash: "commands",
+  Edit: "edits",
+  MultiEdit: "edits",
+  Write: "edits",
+  NotebookEdit: "edits",
+  WebFetch: "web",
+  WebSearch: "web",
+};
+
+// Tools whose message is a diff, still sent on their own in summary mode
+const DIFF_TOOLS = ["Edit", "MultiEdit"];
+
+type ToolOutcome = { name: string; isError?: boolean };
+
+/**
+ * Tracks one turn's tool calls for the contact's /verbose setting: decides
+ * which tool messages are sent, counts the rest, and shows the turn's status
+ * as a reaction on the message that started it.
+ */
+export class TurnProgress {
+  private counts = new Map<Counter, number>();
+  private lastUpdateAt = Date.now();
+  private changedSinceUpdate = false;
+  readonly verbosity: Verbosity;
+
+  constructor(
+    private to: string,
+    private label: (text: string) => string,
+    private replyTo?: string
+  ) {
+    this.verbosity = getPreferences(to).verbosity;
+  }
+
+  private react(emoji: string): void {
+    if (!this.replyTo || this.verbosity === "full") return;
+    sendReaction(this.to, this.replyTo, emoji).catch((error) =>
+      console.error("Failed to send reaction:", error)
+    );
+  }
+
+  start(): void {
+    this.react("⏳");
+  }
+
+  /** Whether Claude's text between tool calls is sent, or only the final answer */
+  get sendsNarration(): boolean {
+    return this.verbosity === "full";
+  }
+
+  /** Count a finished tool. Returns true if it should be sent as its own message */
+  record(tool: ToolOutcome): boolean {
+    const counter = TOOL_COUNTERS[tool.name] || "other";
+    this.counts.set(counter, (this.counts.get(counter) ?? 0) + 1);
+    this.changedSinceUpdate = true;
+
+    switch (this.verbosity) {
+      case "full":
+        return true;
+      case "summary":
+        return tool.isError || DIFF_TOOLS.includes(tool.name);
+      case "quiet":
+        return tool.isError || false;
+    }
+  }
+
+  /** "📖 12 reads · ⚡ 4 commands · 📝 3 edits" */
+  describe(): string {
+    return COUNTERS.filter(({ counter }) => this.counts.has(counter))
+      .map(({ counter, emoji, singular, plural }) => {
+        const count = this.counts.get(counter)!;
+        return `${emoji} ${count} ${count === 1 ? singular : plural}`;
+      })
+      .join(" · ");
+  }
+
+  /** In summary mode, send the counters if it's been a while since the last update */
+  async update(): Promise<void> {
+    if (this.verbosity !== "summary" || !this.changedSinceUpdate) return;
+    if (Date.now() - this.lastUpdateAt < PROGRESS_INTERVAL_MS) return;
+
+    this.lastUpdateAt = Date.now();
+    this.changedSinceUpdate = false;
+    await sendWhatsAppMessage(this.to, this.label(`⏳ Working… ${this.describe()}`));
+  }
+
+  /** Send the final counters (summary mode) and mark the turn done */
+  async finish(): Promise<void> {
+    if (this.verbosity === "summary" && this.counts.size > 0) {
+      await sendWhatsAppMessage(this.to, this.label(`✅ ${this.describe()}`));
+    }
+    this.react("✅");
+  }
+
+  fail(): void {
+    this.react("❌");
+  }
+}
+
+// /verbose command
+
+export function isVerboseButton(buttonId: string | undefined): boolean {
+  return buttonId?.startsWith(VERBOSE_PREFIX) || false;
+}
+
+function isVerbosity(value: string): value is Verbosity {
+  return Object.hasOwn(VERBOSITY_DESCRIPTIONS, value);
+}
+
+async function setVerbosity(contactId: string, verbosity: Verbosity): Promise<void> {
+  await updatePreferences(contactId, { verbosity });
+  await sendWhatsAppMessage(
+    contactId,
+    `Verbosity: *${verbosity}* ✅\n${VERBOSITY_DESCRIPTIONS[verbosity]}`
+  );
+}
+
+/** Handle a verbosity button reply */
+export async function handleVerboseButton(contactId: string, buttonId: string): Promise<void> {
+  const verbosity = buttonId.slice(VERBOSE_PREFIX.length);
+  if (isVerbosity(verbosity)) {
+    await setVerbosity(contactId, verbosity);
+  }
+}
+
+/**
+ * Handle /verbose [quiet|summary|full]. Returns false if `text` isn't a verbose command.
+ */
+export async function handleVerboseCommand(contactId: string, text: string): Promise<boolean> {
+  const [command, arg] = text.trim().toLowerCase().split(/\s+/);
+  if (command !== "/verbose") return false;
+
+  if (arg && isVerbosity(arg)) {
+    await setVerbosity(contactId, arg);
+    return true;
+  }
+
+  const current = getPreferences(contactId).verbosity;
+  await sendInteractiveButtons(contactId, {
+    header: "Verbosity",
+    body: `How much should you see while Claude works?\n\nCurrent: *${current}*\n${VERBOSITY_DESCRIPTIONS[current]}`,
+    buttons: (Object.keys(VERBOSITY_DESCRIPTIONS) as Verbosity[]).map((verbosity) => ({
+      id: `${VERBOSE_PREFIX}${verbosity}`,
+      title: verbosity[0].toUpperCase() + verbosity.slice(1),
+    })),
+  });
+  return true;
+}
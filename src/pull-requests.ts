@@ -0,0 +1,377 @@
+import type { ClaudeAgentClient } from "./lib/claude-agent/index.js";
+import { sendInteractiveButtons, sendWhatsAppMessage } from "./kapso.js";
+import { sendMessage, shellQuote, type SessionSettings } from "./claude.js";
+import { checkSessionBudget, checkSpendLimit } from "./usage.js";
+import { getGitHubIdentity } from "./github-auth.js";
+import { createStore } from "./store.js";
+import {
+  closePullRequest,
+  createPullRequest,
+  findPullRequestForBranch,
+  getAuthenticatedLogin,
+  getDefaultBranch,
+  getPullRequest,
+  listCheckRuns,
+  listPullRequestComments,
+  markPullRequestReady,
+  requestReviewers,
+  type PullRequest,
+} from "./github.js";
+
+const WORKSPACE_DIR = "/home/user/workspace";
+
+const PR_READY_PREFIX = "pr_ready:";
+const PR_REVIEW_PREFIX = "pr_review:";
+const PR_CLOSE_PREFIX = "pr_close:";
+
+type TrackedPullRequestRow = {
+  /** "owner/repo#123" */
+  key: string;
+  contact_id: string;
+  repo: string;
+  number: number;
+  head_sha: string;
+  /** Head commit whose finished checks were already reported */
+  checks_notified_sha: string;
+  /** Newest comment already reported (ISO timestamp) */
+  last_comment_at: string;
+  created_at: string;
+};
+
+// PRs opened with /pr, polled for CI results and review activity
+const trackedPullRequests = new Map<string, TrackedPullRequestRow>();
+
+const pullRequestStore = createStore<TrackedPullRequestRow>("whatsapp_pull_requests", "key");
+
+// Contacts that tapped "Request review" and owe us reviewer usernames
+const awaitingReviewers = new Map<string, { key: string; askedAt: number }>();
+
+// The question lapses after this long, so a later message goes to Claude
+const REVIEWER_REPLY_TTL_MS = 10 * 60 * 1000;
+
+// GitHub login per token, to skip our own comments when notifying
+const tokenLogins = new Map<string, string>();
+
+function getToken(contactId: string): string {
+  const token = getGitHubIdentity(contactId)?.token || process.env.GITHUB_TOKEN;
+  if (!token) {
+    throw new Error("GITHUB_TOKEN is required");
+  }
+  return token;
+}
+
+function parseKey(key: string): { repo: string; number: number } {
+  const [repo, number] = key.split("#");
+  return { repo, number: Number(number) };
+}
+
+async function track(contactId: string, repo: string, pr: PullRequest): Promise<void> {
+  const key = `${repo}#${pr.number}`;
+  const existing = trackedPullRequests.get(key);
+  const row: TrackedPullRequestRow = {
+    key,
+    contact_id: contactId,
+    repo,
+    number: pr.number,
+    head_sha: pr.headSha,
+    checks_notified_sha: existing?.checks_notified_sha || "",
+    last_comment_at: existing?.last_comment_at || new Date().toISOString(),
+    created_at: existing?.created_at || new Date().toISOString(),
+  };
+  trackedPullRequests.set(key, row);
+  await pullRequestStore.set(key, row);
+}
+
+async function untrack(key: string): Promise<void> {
+  trackedPullRequests.delete(key);
+  await pullRequestStore.delete(key);
+}
+
+export async function restorePullRequests(): Promise<number> {
+  const rows = await pullRequestStore.all();
+  for (const row of rows) {
+    trackedPullRequests.set(row.key, row);
+  }
+  return rows.length;
+}
+
+/** The contact that opened a tracked pull request with /pr, if any */
+export function getPullRequestContact(repo: string, number: number): string | null {
+  return trackedPullRequests.get(`${repo}#${number}`)?.contact_id ?? null;
+}
+
+// /pr command
+
+function draftPrompt(base: string): string {
+  return `Prepare this branch for a pull request against \`${base}\`.
+If there are uncommitted changes, commit them with a descriptive message.
+Do not push and do not create the pull request yourself.
+Then reply with ONLY a JSON object, no other text: {"title": "...", "body": "..."}
+The title should be short and imperative. The body should summarize the changes in Markdown.`;
+}
+
+/** Have Claude commit pending work and draft a title/body from the branch diff */
+async function draftPullRequest(
+  client: ClaudeAgentClient,
+  contactId: string,
+  base: string,
+  fallbackTitle: string
+): Promise<{ title: string; body: string }> {
+  let output = "";
+  await sendMessage(client, contactId, draftPrompt(base), (text) => {
+    output += `${text}\n`;
+  });
+
+  const json = output.match(/\{[\s\S]*\}/)?.[0];
+  try {
+    const draft = JSON.parse(json || "") as { title?: string; body?: string };
+    if (draft.title) {
+      return { title: draft.title.slice(0, 256), body: draft.body || "" };
+    }
+  } catch {
+    // Fall through to the fallback below
+  }
+  return { title: fallbackTitle, body: output.trim() };
+}
+
+async function sendPullRequestCard(to: string, pr: PullRequest, repo: string): Promise<void> {
+  const key = `${repo}#${pr.number}`;
+  const buttons = [
+    ...(pr.draft ? [{ id: `${PR_READY_PREFIX}${key}`, title: "Mark ready" }] : []),
+    { id: `${PR_REVIEW_PREFIX}${key}`, title: "Request review" },
+    { id: `${PR_CLOSE_PREFIX}${key}`, title: "Close" },
+  ];
+
+  await sendInteractiveButtons(to, {
+    header: `Pull request #${pr.number}${pr.draft ? " (draft)" : ""}`,
+    body: `*${pr.title}*\n\n🔗 ${pr.url}\n📄 ${pr.changedFiles} file${pr.changedFiles === 1 ? "" : "s"} changed · +${pr.additions} −${pr.deletions}\n🔀 ${pr.headRef} → ${pr.baseRef}`,
+    footer: "You'll be notified about CI and reviews",
+    buttons,
+  });
+}
+
+/**
+ * Push the session branch, open (or update) its PR and reply with a summary
+ * card. Drafting runs a Claude turn: mark the session busy around this call.
+ */
+export async function openPullRequest(
+  to: string,
+  client: ClaudeAgentClient,
+  session: { name: string; sandboxId: string; githubRepo: string; branchName: string; settings: SessionSettings }
+): Promise<void> {
+  const token = getToken(to);
+  const { githubRepo: repo, branchName: branch } = session;
+
+  await sendWhatsAppMessage(to, "Preparing pull request...");
+
+  const base = await getDefaultBranch(token, repo);
+  const existing = await findPullRequestForBranch(token, repo, branch);
+  // Drafting is a Claude turn like any other
+  if (
+    !existing &&
+    ((await checkSpendLimit(to)) ||
+      (await checkSessionBudget(to, { ...session, maxBudgetUsd: session.settings.maxBudgetUsd })))
+  ) {
+    return;
+  }
+  const draft = existing
+    ? null
+    : await draftPullRequest(client, to, base, branch.replace(/^session\//, "Session "));
+
+  const aheadResult = await client.runCommand(
+    `cd ${WORKSPACE_DIR} && git fetch -q origin ${shellQuote(base)} && git rev-list --count ${shellQuote(`origin/${base}..HEAD`)}`
+  );
+  if (aheadResult.stdout.trim() === "0") {
+    await sendWhatsAppMessage(to, `No commits on ${branch} yet, nothing to open a PR with.`);
+    return;
+  }
+
+  const pushResult = await client.runCommand(`cd ${WORKSPACE_DIR} && git push -u origin ${shellQuote(branch)}`);
+  if (pushResult.exitCode !== 0) {
+    throw new Error(`Failed to push ${branch}: ${pushResult.stderr}`);
+  }
+
+  const pr = existing
+    ? await getPullRequest(token, repo, existing.number)
+    : await createPullRequest(token, repo, {
+        head: branch,
+        base,
+        title: draft!.title,
+        body: draft!.body,
+        draft: true,
+      });
+
+  await track(to, repo, pr);
+  await sendPullRequestCard(to, pr, repo);
+}
+
+// Card buttons
+
+export function isPullRequestButton(buttonId: string | undefined): boolean {
+  return [PR_READY_PREFIX, PR_REVIEW_PREFIX, PR_CLOSE_PREFIX].some(
+    (prefix) => buttonId?.startsWith(prefix)
+  );
+}
+
+export async function handlePullRequestButton(contactId: string, buttonId: string): Promise<void> {
+  const prefix = [PR_READY_PREFIX, PR_REVIEW_PREFIX, PR_CLOSE_PREFIX].find((p) => buttonId.startsWith(p))!;
+  const key = buttonId.slice(prefix.length);
+  const { repo, number } = parseKey(key);
+  const token = getToken(contactId);
+
+  if (trackedPullRequests.get(key)?.contact_id !== contactId) {
+    await sendWhatsAppMessage(contactId, "This pull request is no longer tracked.");
+    return;
+  }
+
+  if (prefix === PR_READY_PREFIX) {
+    const pr = await getPullRequest(token, repo, number);
+    await markPullRequestReady(token, pr.nodeId);
+    await sendWhatsAppMessage(contactId, `✅ #${number} is ready for review\n🔗 ${pr.url}`);
+  } else if (prefix === PR_REVIEW_PREFIX) {
+    awaitingReviewers.set(contactId, { key, askedAt: Date.now() });
+    await sendWhatsAppMessage(
+      contactId,
+      `Who should review #${number}? Reply with GitHub handles only (e.g. @alice @bob). Anything else cancels.`
+    );
+  } else {
+    await closePullRequest(token, repo, number);
+    await untrack(key);
+    await sendWhatsAppMessage(contactId, `🚫 Closed #${number}`);
+  }
+}
+
+// GitHub logins: alphanumerics and single inner dashes, up to 39 characters
+const GITHUB_LOGIN = /^[A-Za-z0-9](?:[A-Za-z0-9]|-(?=[A-Za-z0-9])){0,38}$/;
+
+/**
+ * Reviewers from a reply made only of @handles ("@alice @bob", "@alice, @bob").
+ * Returns null for anything else (e.g. a new prompt for Claude).
+ */
+function parseReviewers(text: string): { valid: string[]; invalid: string[] } | null {
+  const handles = text.trim().split(/[\s,]+/).filter(Boolean);
+  if (handles.length === 0 || !handles.every((handle) => /^@[^@]+$/.test(handle))) return null;
+
+  const names = handles.map((handle) => handle.slice(1));
+  return {
+    valid: names.filter((name) => GITHUB_LOGIN.test(name)),
+    invalid: names.filter((name) => !GITHUB_LOGIN.test(name)),
+  };
+}
+
+/**
+ * Handle the reply to "Who should review?". Returns false if none was
+ * expected or the message isn't a list of handles, so it's handled normally.
+ */
+export async function handleReviewerReply(contactId: string, text: string): Promise<boolean> {
+  const awaiting = awaitingReviewers.get(contactId);
+  if (!awaiting) return false;
+  // One answer either way: the question never outlives this message
+  awaitingReviewers.delete(contactId);
+  if (Date.now() - awaiting.askedAt > REVIEWER_REPLY_TTL_MS) return false;
+
+  const { repo, number } = parseKey(awaiting.key);
+  const reviewers = parseReviewers(text);
+  if (!reviewers) return false;
+
+  if (reviewers.invalid.length > 0) {
+    await sendWhatsAppMessage(
+      contactId,
+      `Not valid GitHub usernames: ${reviewers.invalid.join(", ")}\nTap *Request review* on #${number} to try again.`
+    );
+    return true;
+  }
+
+  await requestReviewers(getToken(contactId), repo, number, reviewers.valid);
+  await sendWhatsAppMessage(contactId, `👀 Requested review from ${reviewers.valid.map((r) => `@${r}`).join(", ")} on #${number}`);
+  return true;
+}
+
+// Follow-ups: CI results, reviews and comments
+
+function summarizeChecks(runs: Awaited<ReturnType<typeof listCheckRuns>>): string {
+  const failed = runs.filter((run) => !["success", "neutral", "skipped"].includes(run.conclusion || ""));
+  if (failed.length === 0) {
+    return `✅ All ${runs.length} check${runs.length === 1 ? "" : "s"} passed`;
+  }
+  return `❌ ${failed.length} of ${runs.length} checks failed\n${failed
+    .slice(0, 5)
+    .map((run) => `• ${run.name} (${run.conclusion})`)
+    .join("\n")}`;
+}
+
+function describeComment(comment: Awaited<ReturnType<typeof listPullRequestComments>>[number]): string {
+  const body = comment.body.length > 300 ? `${comment.body.slice(0, 300)}...` : comment.body;
+  if (comment.kind === "review") {
+    const verdict =
+      comment.state === "APPROVED" ? "✅ approved" : comment.state === "CHANGES_REQUESTED" ? "🔁 requested changes" : "💬 reviewed";
+    return `@${comment.author} ${verdict}${body ? `\n${body}` : ""}`;
+  }
+  return `💬 @${comment.author}${comment.kind === "review_comment" ? " (inline)" : ""}\n${body}`;
+}
+
+async function pollPullRequest(row: TrackedPullRequestRow): Promise<void> {
+  const token = getToken(row.contact_id);
+  const pr = await getPullRequest(token, row.repo, row.number);
+  const label = `#${row.number} ${pr.title}`;
+
+  if (pr.state === "closed") {
+    await sendWhatsAppMessage(row.contact_id, `${pr.merged ? "🎉 Merged" : "🚫 Closed"}: ${label}\n🔗 ${pr.url}`);
+    await untrack(row.key);
+    return;
+  }
+
+  let changed = pr.headSha !== row.head_sha;
+  row.head_sha = pr.headSha;
+
+  // Report CI once every check run for the current head commit has finished
+  if (row.checks_notified_sha !== pr.headSha) {
+    const runs = await listCheckRuns(token, row.repo, pr.headSha);
+    if (runs.length > 0 && runs.every((run) => run.status === "completed")) {
+      await sendWhatsAppMessage(row.contact_id, `CI finished on ${label}\n${summarizeChecks(runs)}\n🔗 ${pr.url}/checks`);
+      row.checks_notified_sha = pr.headSha;
+      changed = true;
+    }
+  }
+
+  // Report reviews and comments from other people
+  if (!tokenLogins.has(token)) {
+    tokenLogins.set(token, await getAuthenticatedLogin(token));
+  }
+  const ownLogin = tokenLogins.get(token);
+  const comments = (await listPullRequestComments(token, row.repo, row.number, row.last_comment_at)).filter(
+    // Parsed: GitHub's timestamps have no milliseconds, ours do
+    (comment) =>
+      Date.parse(comment.createdAt) > Date.parse(row.last_comment_at) && comment.author !== ownLogin
+  );
+  if (comments.length > 0) {
+    await sendWhatsAppMessage(
+      row.contact_id,
+      `New activity on ${label}\n──────────\n${comments.map(describeComment).join("\n\n")}\n\n🔗 ${pr.url}`
+    );
+    row.last_comment_at = comments[comments.length - 1].createdAt;
+    changed = true;
+  }
+
+  if (changed) {
+    await pullRequestStore.set(row.key, row);
+  }
+}
+
+export function startPullRequestPolling(intervalMs = 2 * 60 * 1000): void {
+  let polling = false;
+  setInterval(async () => {
+    // Skip the tick if the previous round is still running
+    if (polling) return;
+    polling = true;
+    try {
+      for (const row of [...trackedPullRequests.values()]) {
+        await pollPullRequest(row).catch((error) =>
+          console.error(`Error polling ${row.key}:`, error)
+        );
+      }
+    } finally {
+      polling = false;
+    }
+  }, intervalMs);
+}
@@ -0,0 +1,232 @@
+import { sendInteractiveList, sendWhatsAppMessage } from "./kapso.js";
+import { filterReposForContact } from "./access.js";
+import { getGitHubIdentity } from "./github-auth.js";
+import { fetchAccessibleRepos, type GitHubRepo } from "./github.js";
+import { getPreferences, updatePreferences } from "./preferences.js";
+
+const REPO_PREFIX = "repo:";
+const MORE_PREFIX = "repo_more:";
+
+// WhatsApp lists hold at most 10 rows, one of which may be "More…"
+const MAX_ROWS = 10;
+
+// Recently used repos remembered per contact
+const MAX_RECENT = 5;
+
+export function isRepoSelection(buttonId: string | undefined): boolean {
+  return buttonId?.startsWith(REPO_PREFIX) || false;
+}
+
+export function getRepoFromButtonId(buttonId: string): string {
+  return buttonId.slice(REPO_PREFIX.length);
+}
+
+export function repoButtonId(fullName: string): string {
+  return `${REPO_PREFIX}${fullName}`;
+}
+
+export function isRepoPageButton(buttonId: string | undefined): boolean {
+  return buttonId?.startsWith(MORE_PREFIX) || false;
+}
+
+/** Repos the contact can pick, from the (cached) GitHub list */
+export async function getReposForContact(contactId: string): Promise<GitHubRepo[]> {
+  return filterReposForContact(
+    contactId,
+    await fetchAccessibleRepos(getGitHubIdentity(contactId)?.token)
+  );
+}
+
+// Ranking
+
+/**
+ * Score how well `query` matches `shortName` (e.g. a repo's name) or
+ * `longName` (e.g. "owner/name"). Substring matches beat scattered
+ * (subsequence) matches; returns null when the query doesn't match.
+ */
+export function fuzzyScore(query: string, shortName: string, longName = shortName): number | null {
+  const q = query.toLowerCase();
+  const name = shortName.toLowerCase();
+  const fullName = longName.toLowerCase();
+
+  if (name === q || fullName === q) return 1000;
+  if (name.startsWith(q)) return 900 - name.length;
+  if (name.includes(q)) return 800 - name.indexOf(q);
+  if (fullName.includes(q)) return 700 - fullName.indexOf(q);
+
+  // Subsequence match, rewarding consecutive characters
+  let score = 0;
+  let streak = 0;
+  let position = 0;
+  for (const char of q) {
+    const index = fullName.indexOf(char, position);
+    if (index === -1) return null;
+    streak = index === position ? streak + 1 : 0;
+    score += 1 + streak;
+    position = index + 1;
+  }
+  return score;
+}
+
+/**
+ * Order repos for the picker. With a query, only fuzzy matches are kept, best
+ * first. Without one, pinned repos come first, then recently used ones, then
+ * the rest by last update.
+ */
+export function rankRepos(contactId: string, repos: GitHubRepo[], query?: string): GitHubRepo[] {
+  if (query) {
+    return repos
+      .map((repo) => ({ repo, score: fuzzyScore(query, repo.name, repo.fullName) }))
+      .filter((match): match is { repo: GitHubRepo; score: number } => match.score !== null)
+      .sort((a, b) => b.score - a.score)
+      .map((match) => match.repo);
+  }
+
+  const { pinnedRepos, recentRepos } = getPreferences(contactId);
+  const priority = [...pinnedRepos, ...recentRepos.filter((repo) => !pinnedRepos.includes(repo))];
+  const rank = (repo: GitHubRepo) => {
+    const index = priority.indexOf(repo.fullName);
+    return index === -1 ? priority.length : index;
+  };
+
+  // Array.prototype.sort is stable, so the rest keeps GitHub's update order
+  return [...repos].sort((a, b) => rank(a) - rank(b));
+}
+
+/** Remember a repo the contact just picked, so it shows up first next time */
+export async function recordRecentRepo(contactId: string, fullName: string): Promise<void> {
+  const { recentRepos } = getPreferences(contactId);
+  await updatePreferences(contactId, {
+    recentRepos: [fullName, ...recentRepos.filter((repo) => repo !== fullName)].slice(0, MAX_RECENT),
+  });
+}
+
+// Paged list
+
+/** Send one page of repos as an interactive list, with a "More…" row if there are more */
+export async function sendRepoList(
+  to: string,
+  repos: GitHubRepo[],
+  options: { header?: string; body: string; page?: number; query?: string }
+): Promise<void> {
+  const page = options.page ?? 0;
+  const { pinnedRepos } = getPreferences(to);
+
+  // Every page but the last gives up a row to "More…"
+  const pageSize = MAX_ROWS - 1;
+  const start = page * pageSize;
+  const hasMore = repos.length - start > MAX_ROWS;
+  const pageRepos = repos.slice(start, hasMore ? start + pageSize : start + MAX_ROWS);
+
+  const rows = pageRepos.map((repo) => ({
+    id: repoButtonId(repo.fullName),
+    title: repo.name.slice(0, 24), // Row title max 24 chars
+    description: `${pinnedRepos.includes(repo.fullName) ? "📌 " : ""}${repo.owner}`,
+  }));
+
+  if (hasMore) {
+    rows.push({
+      id: `${MORE_PREFIX}${page + 1}:${(options.query || "").slice(0, 100)}`,
+      title: "More…",
+      description: `${repos.length - start - pageSize} more repositories`,
+    });
+  }
+
+  await sendInteractiveList(to, {
+    header: options.header || "Claude Code 🤖",
+    body: options.body,
+    footer: "Powered by Kapso",
+    buttonText: "Select repo",
+    sectionTitle: page === 0 ? "Your repositories" : `Page ${page + 1}`,
+    rows,
+  });
+}
+
+/** Handle a "More…" row: send the next page of the same list */
+export async function handleRepoPageButton(contactId: string, buttonId: string): Promise<void> {
+  const [page, ...query] = buttonId.slice(MORE_PREFIX.length).split(":");
+  const search = query.join(":") || undefined;
+  const repos = rankRepos(contactId, await getReposForContact(contactId), search);
+
+  await sendRepoList(contactId, repos, {
+    body: search ? `Repositories matching "${search}"` : "Your repositories",
+    page: Number(page) || 0,
+    query: search,
+  });
+}
+
+// /repo command
+
+const USAGE = `*Repo commands*
+/repo - list your repositories
+/repo <query> - search by owner/name
+/repo pin <query> - show a repo first
+/repo unpin <query>`;
+
+async function setPinned(contactId: string, query: string, pinned: boolean): Promise<string> {
+  const { pinnedRepos } = getPreferences(contactId);
+
+  // Unpinning matches the pinned list, so repos you lost access to can still be removed
+  const candidates = pinned
+    ? await getReposForContact(contactId)
+    : pinnedRepos.map((fullName) => {
+        const [owner, name] = fullName.split("/");
+        return { fullName, owner, name, private: false };
+      });
+  const repo = rankRepos(contactId, candidates, query)[0];
+  if (!repo) {
+    return `No repository matches "${query}".`;
+  }
+
+  const others = pinnedRepos.filter((fullName) => fullName !== repo.fullName);
+  await updatePreferences(contactId, {
+    pinnedRepos: pinned ? [...others, repo.fullName] : others,
+  });
+  return pinned ? `📌 Pinned ${repo.fullName}` : `Unpinned ${repo.fullName}`;
+}
+
+/**
+ * Handle /repo [query], /repo pin and /repo unpin. Returns false if `text`
+ * isn't a repo command.
+ */
+export async function handleRepoCommand(contactId: string, text: string): Promise<boolean> {
+  const match = text.trim().match(/^\/repo(?:\s+(.*))?$/i);
+  if (!match) return false;
+
+  const args = (match[1] || "").trim();
+  const [subcommand, ...rest] = args.split(/\s+/);
+
+  try {
+    if (/^(un)?pin$/i.test(subcommand)) {
+      const query = rest.join(" ");
+      await sendWhatsAppMessage(
+        contactId,
+        query ? await setPinned(contactId, query, subcommand.toLowerCase() === "pin") : USAGE
+      );
+      return true;
+    }
+
+    const repos = rankRepos(contactId, await getReposForContact(contactId), args || undefined);
+    if (repos.length === 0) {
+      await sendWhatsAppMessage(
+        contactId,
+        args ? `No repository matches "${args}".` : "No repositories found."
+      );
+      return true;
+    }
+
+    await sendRepoList(contactId, repos, {
+      body: args ? `Repositories matching "${args}"` : "Your repositories",
+      query: args || undefined,
+    });
+  } catch (error) {
+    console.error("Error fetching repos:", error);
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    await sendWhatsAppMessage(
+      contactId,
+      `Failed to fetch repositories: ${errorMessage.slice(0, 200)}`
+    );
+  }
+  return true;
+}
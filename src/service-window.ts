@@ -0,0 +1,74 @@
+import {
+  onHeldMessagesChange,
+  recordInbound,
+  restoreHeldMessages,
+  type OutboundMessage,
+  type ParsedMessage,
+} from "./kapso.js";
+import { createStore } from "./store.js";
+
+type LastInboundRow = {
+  contact_id: string;
+  last_inbound_at: number;
+};
+
+type HeldMessagesRow = {
+  contact_id: string;
+  /** Documents are stored as text or base64 */
+  messages: OutboundMessage[];
+};
+
+// When each contact last wrote, so the 24-hour window survives restarts
+const lastInboundStore = createStore<LastInboundRow>("whatsapp_last_inbound", "contact_id");
+
+// Output held for a closed window, so it isn't lost on restart
+const heldStore = createStore<HeldMessagesRow>("whatsapp_held_messages", "contact_id");
+
+// Serializes writes so an older list never overwrites a newer one
+let heldWrites: Promise<void> = Promise.resolve();
+
+export async function restoreServiceWindows(): Promise<number> {
+  // Held messages first, so a window that is still open sends them
+  for (const row of await heldStore.all()) {
+    restoreHeldMessages(row.contact_id, row.messages);
+  }
+  onHeldMessagesChange(saveHeldMessages);
+
+  const rows = await lastInboundStore.all();
+  for (const row of rows) {
+    recordInbound(row.contact_id, row.last_inbound_at);
+  }
+  return rows.length;
+}
+
+function saveHeldMessages(contactId: string, messages: OutboundMessage[]): void {
+  const snapshot = [...messages];
+  heldWrites = heldWrites
+    .then(async () => {
+      if (snapshot.length === 0) {
+        await heldStore.delete(contactId);
+        return;
+      }
+      await heldStore.set(contactId, {
+        contact_id: contactId,
+        messages: await Promise.all(snapshot.map(toStoredMessage)),
+      });
+    })
+    .catch((error) => console.error("Failed to save held messages:", error));
+}
+
+/** Binary document contents become base64 so the message can be stored as JSON */
+async function toStoredMessage(message: OutboundMessage): Promise<OutboundMessage> {
+  if (message.type !== "document" || typeof message.content === "string") return message;
+  const bytes = message.content instanceof Blob ? await message.content.arrayBuffer() : message.content;
+  return { ...message, content: Buffer.from(bytes).toString("base64"), encoding: "base64" };
+}
+
+/** A contact wrote to us: reopen their window and send anything held for them */
+export function noteInbound(message: ParsedMessage): void {
+  const at = Math.min(message.timestamp ?? Date.now(), Date.now());
+  if (!recordInbound(message.from, at)) return;
+  lastInboundStore
+    .set(message.from, { contact_id: message.from, last_inbound_at: at })
+    .catch((error) => console.error("Failed to save last inbound time:", error));
+}
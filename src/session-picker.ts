@@ -0,0 +1,63 @@
+import { sendInteractiveList, sendWhatsAppMessage } from "./kapso.js";
+import { focusSession, getSessionInfo, listSessions, type SessionInfo } from "./claude.js";
+import { getSessionUsage } from "./usage.js";
+
+const SESSION_PREFIX = "session:";
+
+export function isSessionButton(buttonId: string | undefined): boolean {
+  return buttonId?.startsWith(SESSION_PREFIX) || false;
+}
+
+function describeSession(session: SessionInfo): string {
+  const status = session.isProcessing ? "working" : session.status;
+  const model = session.settings.model ? `\n🧠 ${session.settings.model}` : "";
+  const usage = getSessionUsage(session.sandboxId);
+  return `${session.focused ? "👉" : "▫️"} *${session.name}* · ${status}\n📁 ${session.githubRepo}\n🔀 ${session.branchName}\n📦 ${session.sandboxId}${model}\n💰 $${usage.costUsd.toFixed(2)} · ${usage.turns} turn${usage.turns === 1 ? "" : "s"}`;
+}
+
+/** All of a contact's sessions, for /info */
+export function formatSessions(contactId: string): string {
+  const sessions = listSessions(contactId);
+  if (sessions.length === 0) return "No active session.";
+  return sessions.map(describeSession).join("\n\n");
+}
+
+/** Handle /sessions. Returns false if `text` isn't the sessions command. */
+export async function handleSessionsCommand(contactId: string, text: string): Promise<boolean> {
+  if (text.trim().toLowerCase() !== "/sessions") return false;
+
+  const sessions = listSessions(contactId);
+  if (sessions.length === 0) {
+    await sendWhatsAppMessage(contactId, "No active session. Send /new to start one.");
+    return true;
+  }
+
+  await sendInteractiveList(contactId, {
+    header: "Sessions",
+    body: "Messages go to the session marked 👉. Pick another to switch; the rest keep working in the background.\n\nSend /new to start another session.",
+    footer: "Powered by Kapso",
+    buttonText: "Switch session",
+    sectionTitle: "Your sessions",
+    rows: sessions.slice(0, 10).map((session) => ({
+      id: `${SESSION_PREFIX}${session.name}`,
+      title: `${session.focused ? "👉 " : ""}${session.name}`.slice(0, 24), // Row title max 24 chars
+      description: `${session.githubRepo} · ${session.isProcessing ? "working" : session.status}`.slice(0, 72),
+    })),
+  });
+  return true;
+}
+
+/** Handle a pick from the /sessions list: focus that session */
+export async function handleSessionButton(contactId: string, buttonId: string): Promise<void> {
+  const name = buttonId.slice(SESSION_PREFIX.length);
+  if (!focusSession(contactId, name)) {
+    await sendWhatsAppMessage(contactId, "That session has ended. Send /sessions to see the others.");
+    return;
+  }
+
+  const info = getSessionInfo(contactId, name)!;
+  await sendWhatsAppMessage(
+    contactId,
+    `Now on *${name}* ✅\n──────────\n📁 ${info.githubRepo}\n🔀 ${info.branchName}`
+  );
+}
@@ -0,0 +1,149 @@
+import { mkdir, readFile, rename, writeFile } from "fs/promises";
+import { dirname, join } from "path";
+import { dbDelete, dbQuery, dbUpsert } from "./kapso.js";
+
+/**
+ * Keyed record store used to persist server state across restarts.
+ * Each store maps to one Kapso database table or one JSON file.
+ */
+export interface Store<T extends Record<string, unknown>> {
+  all(): Promise<T[]>;
+  get(key: string): Promise<T | null>;
+  set(key: string, row: T): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export type StoreBackend = "file" | "kapso" | "memory";
+
+function getBackend(): StoreBackend {
+  const backend = process.env.STORE_BACKEND || "file";
+  if (backend !== "file" && backend !== "kapso" && backend !== "memory") {
+    throw new Error(`Unknown STORE_BACKEND: ${backend}`);
+  }
+  return backend;
+}
+
+/** Create a store for `table`, keyed by `keyColumn`, using the configured backend */
+export function createStore<T extends Record<string, unknown>>(
+  table: string,
+  keyColumn: keyof T & string
+): Store<T> {
+  switch (getBackend()) {
+    case "kapso":
+      return new KapsoStore<T>(table, keyColumn);
+    case "memory":
+      return new MemoryStore<T>();
+    default:
+      return new FileStore<T>(
+        join(process.env.STORE_DIR || "data", `${table}.json`)
+      );
+  }
+}
+
+// Kapso database backend
+
+class KapsoStore<T extends Record<string, unknown>> implements Store<T> {
+  constructor(
+    private table: string,
+    private keyColumn: string
+  ) {}
+
+  async all(): Promise<T[]> {
+    return dbQuery<T>(this.table);
+  }
+
+  async get(key: string): Promise<T | null> {
+    const rows = await dbQuery<T>(this.table, [
+      { column: this.keyColumn, operator: "eq", value: key },
+    ]);
+    return rows[0] ?? null;
+  }
+
+  async set(key: string, row: T): Promise<void> {
+    await dbUpsert(this.table, { ...row, [this.keyColumn]: key });
+  }
+
+  async delete(key: string): Promise<void> {
+    await dbDelete(this.table, [
+      { column: this.keyColumn, operator: "eq", value: key },
+    ]);
+  }
+}
+
+// Local JSON file backend
+
+class FileStore<T extends Record<string, unknown>> implements Store<T> {
+  private rows: Map<string, T> | null = null;
+  // Serializes writes so concurrent updates don't clobber each other
+  private writeChain: Promise<void> = Promise.resolve();
+
+  constructor(private path: string) {}
+
+  private async load(): Promise<Map<string, T>> {
+    if (this.rows) return this.rows;
+
+    try {
+      const content = await readFile(this.path, "utf8");
+      this.rows = new Map(Object.entries(JSON.parse(content) as Record<string, T>));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.error(`Failed to read store ${this.path}:`, error);
+      }
+      this.rows = new Map();
+    }
+    return this.rows;
+  }
+
+  private persist(): Promise<void> {
+    this.writeChain = this.writeChain.catch(() => {}).then(async () => {
+      const content = JSON.stringify(Object.fromEntries(this.rows!), null, 2);
+      const tmpPath = `${this.path}.tmp`;
+      await mkdir(dirname(this.path), { recursive: true });
+      await writeFile(tmpPath, content);
+      await rename(tmpPath, this.path);
+    });
+    return this.writeChain;
+  }
+
+  async all(): Promise<T[]> {
+    return [...(await this.load()).values()];
+  }
+
+  async get(key: string): Promise<T | null> {
+    return (await this.load()).get(key) ?? null;
+  }
+
+  async set(key: string, row: T): Promise<void> {
+    (await this.load()).set(key, row);
+    await this.persist();
+  }
+
+  async delete(key: string): Promise<void> {
+    const rows = await this.load();
+    if (rows.delete(key)) {
+      await this.persist();
+    }
+  }
+}
+
+// In-memory backend (no persistence)
+
+class MemoryStore<T extends Record<string, unknown>> implements Store<T> {
+  private rows = new Map<string, T>();
+
+  async all(): Promise<T[]> {
+    return [...this.rows.values()];
+  }
+
+  async get(key: string): Promise<T | null> {
+    return this.rows.get(key) ?? null;
+  }
+
+  async set(key: string, row: T): Promise<void> {
+    this.rows.set(key, row);
+  }
+
+  async delete(key: string): Promise<void> {
+    this.rows.delete(key);
+  }
+}
@@ -0,0 +1,162 @@
+/**
+ * WhatsApp messages for Claude's tool calls. Each tool has a renderer in the
+ * registry; tools without one get a generic "🔧 name" message.
+ */
+
+export type ToolInfo = {
+  name: string;
+  input?: Record<string, unknown>;
+  result?: string;
+  isError?: boolean;
+};
+
+/** Render a finished tool call as a WhatsApp message */
+export type ToolRenderer = (tool: ToolInfo, helpers: RenderHelpers) => string;
+
+type RenderHelpers = {
+  /** The tool result, truncated for chat */
+  result: string;
+  divider: string;
+};
+
+const DIVIDER = "──────────";
+
+const renderers = new Map<string, ToolRenderer>();
+
+/** Add (or replace) the renderer for one or more tool names */
+export function registerToolRenderer(names: string | string[], renderer: ToolRenderer): void {
+  for (const name of Array.isArray(names) ? names : [names]) {
+    renderers.set(name, renderer);
+  }
+}
+
+export function truncate(str: string, maxLines: number, maxChars: number): string {
+  const lines = str.split("\n").slice(0, maxLines);
+  const result = lines.join("\n");
+  return result.length > maxChars ? result.slice(0, maxChars) + "..." : result;
+}
+
+function fileName(path: unknown, fallback = "file"): string {
+  return (typeof path === "string" && path.split("/").pop()) || fallback;
+}
+
+function domainOf(url: unknown): string {
+  try {
+    return new URL(String(url)).hostname.replace(/^www\./, "");
+  } catch {
+    return String(url || "");
+  }
+}
+
+function diffBlock(oldCode: unknown, newCode: unknown): string {
+  const lines = (code: unknown, sign: string) =>
+    typeof code === "string" && code
+      ? "```\n" + sign + " " + truncate(code, 6, 200).split("\n").join(`\n${sign} `) + "\n```"
+      : "";
+  return [lines(oldCode, "-"), lines(newCode, "+")].filter(Boolean).join("\n");
+}
+
+const defaultRenderer: ToolRenderer = (tool, { result, divider }) =>
+  `🔧 ${tool.name}${result ? `\n${divider}\n${result}` : ""}`;
+
+/** Format a finished tool call. Failed calls show the error under the tool's headline */
+export function formatToolMessage(tool: ToolInfo): string {
+  const helpers: RenderHelpers = {
+    result: tool.result ? truncate(tool.result, 8, 400) : "",
+    divider: DIVIDER,
+  };
+  const message = (renderers.get(tool.name) || defaultRenderer)(tool, helpers);
+  if (!tool.isError) return message;
+
+  const headline = message.split("\n")[0].replace(/^\S+\s/, "");
+  return `❌ ${headline}${helpers.result ? `\n${DIVIDER}\n\`\`\`\n${helpers.result}\n\`\`\`` : ""}`;
+}
+
+// Files
+
+registerToolRenderer("Edit", ({ input = {} }, { divider }) =>
+  `📝 Edit \`${fileName(input.file_path)}\`\n${divider}\n${diffBlock(input.old_string, input.new_string)}`
+);
+
+registerToolRenderer("MultiEdit", ({ input = {} }, { divider }) => {
+  const edits = Array.isArray(input.edits)
+    ? (input.edits as Array<{ old_string?: string; new_string?: string }>)
+    : [];
+  const shown = edits.slice(0, 2).map((edit) => diffBlock(edit.old_string, edit.new_string));
+  const more = edits.length > shown.length ? `\n_…and ${edits.length - shown.length} more_` : "";
+  return `📝 MultiEdit \`${fileName(input.file_path)}\` · ${edits.length} edit${edits.length === 1 ? "" : "s"}\n${divider}\n${shown.join("\n")}${more}`;
+});
+
+registerToolRenderer("Write", ({ input = {} }, { result, divider }) =>
+  `📝 Write \`${fileName(input.file_path)}\`${result ? `\n${divider}\n${result}` : ""}`
+);
+
+// Don't show the result for Read (too long)
+registerToolRenderer("Read", ({ input = {} }) => `📖 Read \`${fileName(input.file_path)}\``);
+
+registerToolRenderer("NotebookEdit", ({ input = {} }, { divider }) => {
+  const mode = typeof input.edit_mode === "string" ? input.edit_mode : "replace";
+  const source =
+    typeof input.new_source === "string" && input.new_source
+      ? `\n${divider}\n\`\`\`\n${truncate(input.new_source, 6, 200)}\n\`\`\``
+      : "";
+  return `📓 NotebookEdit \`${fileName(input.notebook_path, "notebook")}\` · ${mode} cell${source}`;
+});
+
+// Commands and search
+
+registerToolRenderer("Bash", ({ input = {} }, { result, divider }) => {
+  const cmd = typeof input.command === "string" ? truncate(input.command, 1, 60) : "";
+  const output = result ? `\n${divider}\n\`\`\`\n${result}\n\`\`\`` : "";
+  return `⚡ Bash \`${cmd}\`${output}`;
+});
+
+registerToolRenderer(["Glob", "Grep"], ({ name, input = {} }, { result, divider }) => {
+  const path = input.path ? ` in \`${input.path}\`` : "";
+  return `🔍 ${name} \`${input.pattern || ""}\`${path}${result ? `\n${divider}\n${result}` : ""}`;
+});
+
+// Planning and subagents
+
+const TODO_MARKS: Record<string, string> = {
+  completed: "✅",
+  in_progress: "⏳",
+  pending: "▫️",
+};
+
+registerToolRenderer("TodoWrite", ({ input = {} }, { divider }) => {
+  const todos = Array.isArray(input.todos)
+    ? (input.todos as Array<{ content?: string; activeForm?: string; status?: string }>)
+    : [];
+  const done = todos.filter((todo) => todo.status === "completed").length;
+  const items = todos.map((todo) => {
+    const text = todo.status === "in_progress" ? todo.activeForm || todo.content : todo.content;
+    return `${TODO_MARKS[todo.status || ""] || "▫️"} ${text || ""}`;
+  });
+  return `📋 Todos ${done}/${todos.length}\n${divider}\n${items.join("\n")}`;
+});
+
+registerToolRenderer("Task", ({ input = {} }, { result, divider }) => {
+  const agent = typeof input.subagent_type === "string" ? input.subagent_type : "agent";
+  const description = typeof input.description === "string" ? input.description : "";
+  return `🤖 Task *${agent}*${description ? `: ${description}` : ""}${result ? `\n${divider}\n${result}` : ""}`;
+});
+
+// Web
+
+registerToolRenderer("WebFetch", ({ input = {}, result = "" }) => {
+  // Use the page's first heading (or line) as its title
+  const title = result
+    .split("\n")
+    .map((line) => line.replace(/^#+\s*/, "").trim())
+    .find(Boolean);
+  return `🌐 WebFetch ${domainOf(input.url)}${title ? `\n_${truncate(title, 1, 100)}_` : ""}`;
+});
+
+registerToolRenderer("WebSearch", ({ input = {}, result = "" }, { divider }) => {
+  // Results list links as JSON: [{"title": "...", "url": "..."}]
+  const links = [...result.matchAll(/"title":\s*"((?:[^"\\]|\\.)*)",\s*"url":\s*"([^"]+)"/g)]
+    .slice(0, 3)
+    .map(([, title, url]) => `• ${truncate(title, 1, 80)} (${domainOf(url)})`);
+  return `🔎 WebSearch "${truncate(String(input.query || ""), 1, 80)}"${links.length > 0 ? `\n${divider}\n${links.join("\n")}` : ""}`;
+});
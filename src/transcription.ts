@@ -0,0 +1,101 @@
+/**
+ * Speech-to-text for inbound voice notes.
+ * The provider is chosen with TRANSCRIPTION_PROVIDER and can be swapped at runtime.
+ */
+export interface TranscriptionProvider {
+  readonly name: string;
+  transcribe(audio: ArrayBuffer, mimeType: string): Promise<string>;
+}
+
+// OpenAI-compatible /audio/transcriptions endpoint (OpenAI Whisper, Groq, local servers)
+
+class OpenAITranscriptionProvider implements TranscriptionProvider {
+  readonly name = "openai";
+
+  constructor(
+    private apiKey: string,
+    private baseUrl = "https://api.openai.com/v1",
+    private model = "whisper-1"
+  ) {}
+
+  async transcribe(audio: ArrayBuffer, mimeType: string): Promise<string> {
+    const form = new FormData();
+    form.append("model", this.model);
+    form.append("file", new Blob([audio], { type: mimeType }), `voice.${extensionFor(mimeType)}`);
+
+    const response = await fetch(`${this.baseUrl}/audio/transcriptions`, {
+      method: "POST",
+      headers: { Authorization: `Bearer ${this.apiKey}` },
+      body: form,
+    });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Transcription failed: ${error}`);
+    }
+
+    const data = (await response.json()) as { text?: string };
+    return (data.text || "").trim();
+  }
+}
+
+// Offline stand-in: returns a fixed transcript (for tests and local development)
+
+class StaticTranscriptionProvider implements TranscriptionProvider {
+  readonly name = "static";
+
+  constructor(private text: string) {}
+
+  async transcribe(): Promise<string> {
+    return this.text;
+  }
+}
+
+function extensionFor(mimeType: string): string {
+  // WhatsApp voice notes are "audio/ogg; codecs=opus"
+  const subtype = mimeType.split(";")[0].split("/")[1] || "ogg";
+  return subtype === "mpeg" ? "mp3" : subtype;
+}
+
+function createProvider(): TranscriptionProvider | null {
+  switch (process.env.TRANSCRIPTION_PROVIDER) {
+    case "openai": {
+      const apiKey = process.env.TRANSCRIPTION_API_KEY || process.env.OPENAI_API_KEY;
+      if (!apiKey) {
+        throw new Error("TRANSCRIPTION_API_KEY or OPENAI_API_KEY is required for openai transcription");
+      }
+      // Empty values (as in .env.example) fall back to the defaults
+      return new OpenAITranscriptionProvider(
+        apiKey,
+        process.env.TRANSCRIPTION_BASE_URL || undefined,
+        process.env.TRANSCRIPTION_MODEL || undefined
+      );
+    }
+    case "static":
+      return new StaticTranscriptionProvider(
+        process.env.TRANSCRIPTION_STATIC_TEXT || "This is a test voice note."
+      );
+    case undefined:
+    case "":
+      return null;
+    default:
+      throw new Error(`Unknown TRANSCRIPTION_PROVIDER: ${process.env.TRANSCRIPTION_PROVIDER}`);
+  }
+}
+
+let provider: TranscriptionProvider | null | undefined;
+
+/** Get the configured provider, or null if voice notes are disabled */
+export function getTranscriptionProvider(): TranscriptionProvider | null {
+  if (provider === undefined) {
+    provider = createProvider();
+  }
+  return provider;
+}
+
+/** Override the configured provider (e.g. with a stand-in in tests) */
+export function setTranscriptionProvider(next: TranscriptionProvider | null): void {
+  provider = next;
+}
+
+export { OpenAITranscriptionProvider, StaticTranscriptionProvider };
@@ -0,0 +1,276 @@
+import crypto from "crypto";
+import { sendWhatsAppMessage } from "./kapso.js";
+import { createStore } from "./store.js";
+
+/** Tokens, cost and time of one Claude turn, from the SDK's `result` message */
+export type TurnUsage = {
+  inputTokens: number;
+  outputTokens: number;
+  cacheReadTokens: number;
+  cacheCreationTokens: number;
+  costUsd: number;
+  durationMs: number;
+};
+
+/** The session a usage record belongs to */
+export type UsageSession = {
+  contactId: string;
+  name: string;
+  sandboxId: string;
+  githubRepo: string;
+};
+
+type UsageRow = {
+  id: string;
+  contact_id: string;
+  session_name: string;
+  sandbox_id: string;
+  github_repo: string;
+  /** "turn" rows carry tokens and cost, "sandbox" rows only time */
+  kind: "turn" | "sandbox";
+  input_tokens: number;
+  output_tokens: number;
+  cache_read_tokens: number;
+  cache_creation_tokens: number;
+  cost_usd: number;
+  duration_ms: number;
+  created_at: string;
+};
+
+type UsageTotals = {
+  turns: number;
+  inputTokens: number;
+  outputTokens: number;
+  cacheTokens: number;
+  costUsd: number;
+  turnMs: number;
+  sandboxMs: number;
+};
+
+// Rows older than this are deleted, from memory and the store
+const RETENTION_DAYS = Number(process.env.USAGE_RETENTION_DAYS) || 90;
+const RETENTION_MS = RETENTION_DAYS * 24 * 60 * 60 * 1000;
+
+// Usage records, oldest first, loaded on boot
+const records: UsageRow[] = [];
+
+const usageStore = createStore<UsageRow>("whatsapp_usage", "id");
+
+export async function restoreUsage(): Promise<number> {
+  const since = Date.now() - RETENTION_MS;
+  const rows = (await usageStore.all()).sort((a, b) => a.created_at.localeCompare(b.created_at));
+  for (const row of rows) {
+    if (Date.parse(row.created_at) < since) {
+      await usageStore.delete(row.id);
+      continue;
+    }
+    records.push(row);
+  }
+  return records.length;
+}
+
+/** Drop records past the retention window (they're oldest first) */
+function pruneRecords(): void {
+  const since = new Date(Date.now() - RETENTION_MS).toISOString();
+  while (records.length > 0 && records[0].created_at < since) {
+    const row = records.shift()!;
+    usageStore.delete(row.id).catch((error) => console.error("Failed to delete usage record:", error));
+  }
+}
+
+async function addRecord(
+  session: UsageSession,
+  kind: UsageRow["kind"],
+  usage: Partial<TurnUsage>
+): Promise<void> {
+  const row: UsageRow = {
+    id: crypto.randomUUID(),
+    contact_id: session.contactId,
+    session_name: session.name,
+    sandbox_id: session.sandboxId,
+    github_repo: session.githubRepo,
+    kind,
+    input_tokens: usage.inputTokens ?? 0,
+    output_tokens: usage.outputTokens ?? 0,
+    cache_read_tokens: usage.cacheReadTokens ?? 0,
+    cache_creation_tokens: usage.cacheCreationTokens ?? 0,
+    cost_usd: usage.costUsd ?? 0,
+    duration_ms: usage.durationMs ?? 0,
+    created_at: new Date().toISOString(),
+  };
+  pruneRecords();
+  records.push(row);
+  await usageStore.set(row.id, row);
+}
+
+export async function recordTurn(session: UsageSession, usage: TurnUsage): Promise<void> {
+  await addRecord(session, "turn", usage);
+}
+
+/** Record how long a sandbox was running, when it's paused or ended */
+export async function recordSandboxTime(session: UsageSession, durationMs: number): Promise<void> {
+  if (durationMs <= 0) return;
+  await addRecord(session, "sandbox", { durationMs });
+}
+
+// Totals
+
+function sumRows(rows: UsageRow[]): UsageTotals {
+  const totals: UsageTotals = {
+    turns: 0,
+    inputTokens: 0,
+    outputTokens: 0,
+    cacheTokens: 0,
+    costUsd: 0,
+    turnMs: 0,
+    sandboxMs: 0,
+  };
+  for (const row of rows) {
+    if (row.kind === "sandbox") {
+      totals.sandboxMs += row.duration_ms;
+      continue;
+    }
+    totals.turns++;
+    totals.inputTokens += row.input_tokens;
+    totals.outputTokens += row.output_tokens;
+    totals.cacheTokens += row.cache_read_tokens + row.cache_creation_tokens;
+    totals.costUsd += row.cost_usd;
+    totals.turnMs += row.duration_ms;
+  }
+  return totals;
+}
+
+function contactTotals(contactId: string, since: Date): UsageTotals {
+  const sinceIso = since.toISOString();
+  return sumRows(
+    records.filter((row) => row.contact_id === contactId && row.created_at >= sinceIso)
+  );
+}
+
+/** Spend and turns of one session (sandbox), across pauses and resumes */
+export function getSessionUsage(sandboxId: string): { costUsd: number; turns: number } {
+  const { costUsd, turns } = sumRows(records.filter((row) => row.sandbox_id === sandboxId));
+  return { costUsd, turns };
+}
+
+/** Midnight today, server time */
+function startOfDay(): Date {
+  const date = new Date();
+  date.setHours(0, 0, 0, 0);
+  return date;
+}
+
+/** Midnight on Monday of this week */
+function startOfWeek(): Date {
+  const date = startOfDay();
+  date.setDate(date.getDate() - ((date.getDay() + 6) % 7));
+  return date;
+}
+
+function startOfMonth(): Date {
+  const date = startOfDay();
+  date.setDate(1);
+  return date;
+}
+
+// Daily spend caps
+
+/**
+ * Daily spend cap for a contact in USD, or null for none. DAILY_SPEND_LIMITS
+ * ("5215512345678:10,...") overrides DAILY_SPEND_LIMIT_USD per number.
+ */
+export function getDailyLimit(contactId: string): number | null {
+  const phone = contactId.replace(/\D/g, "");
+  for (const entry of (process.env.DAILY_SPEND_LIMITS || "").split(",")) {
+    const [number, limit] = entry.split(":").map((part) => part.trim());
+    if (number && number.replace(/\D/g, "") === phone && Number.isFinite(Number(limit))) {
+      return Number(limit);
+    }
+  }
+
+  const limit = Number(process.env.DAILY_SPEND_LIMIT_USD);
+  return process.env.DAILY_SPEND_LIMIT_USD && Number.isFinite(limit) ? limit : null;
+}
+
+/**
+ * Tell the contact if they're over today's spend cap. Returns true if the
+ * turn should not run.
+ */
+export async function checkSpendLimit(contactId: string): Promise<boolean> {
+  const limit = getDailyLimit(contactId);
+  if (limit === null) return false;
+
+  const spent = contactTotals(contactId, startOfDay()).costUsd;
+  if (spent < limit) return false;
+
+  await sendWhatsAppMessage(
+    contactId,
+    `💸 You've reached today's spend limit (${formatUsd(spent)} of ${formatUsd(limit)}).\n\nIt resets at midnight. Send /usage to see your totals.`
+  );
+  return true;
+}
+
+/**
+ * Tell the contact if a session has used up its /model max spend. The SDK's
+ * own budget restarts with every query, so the limit is checked here against
+ * the session's recorded turns. Returns true if the turn should not run.
+ */
+export async function checkSessionBudget(
+  contactId: string,
+  session: { name: string; sandboxId: string; maxBudgetUsd?: number }
+): Promise<boolean> {
+  if (session.maxBudgetUsd === undefined) return false;
+
+  const spent = getSessionUsage(session.sandboxId).costUsd;
+  if (spent < session.maxBudgetUsd) return false;
+
+  await sendWhatsAppMessage(
+    contactId,
+    `💸 *${session.name}* has reached its max spend (${formatUsd(spent)} of ${formatUsd(session.maxBudgetUsd)}).\n\nRaise it with /model budget <usd>, or start a new session with /new.`
+  );
+  return true;
+}
+
+// /usage command
+
+function formatUsd(amount: number): string {
+  return `$${amount.toFixed(2)}`;
+}
+
+function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+function formatMinutes(ms: number): string {
+  return `${Math.round(ms / 60000)} min`;
+}
+
+function describeTotals(label: string, totals: UsageTotals): string {
+  return [
+    `*${label}* · ${formatUsd(totals.costUsd)}`,
+    `💬 ${totals.turns} turn${totals.turns === 1 ? "" : "s"} · ⏱️ ${formatMinutes(totals.turnMs)}`,
+    `🔤 ${formatTokens(totals.inputTokens)} in · ${formatTokens(totals.outputTokens)} out · ${formatTokens(totals.cacheTokens)} cache`,
+    `📦 ${formatMinutes(totals.sandboxMs)} sandbox`,
+  ].join("\n");
+}
+
+/** Handle /usage. Returns false if `text` isn't the usage command. */
+export async function handleUsageCommand(contactId: string, text: string): Promise<boolean> {
+  if (text.trim().toLowerCase() !== "/usage") return false;
+
+  const today = contactTotals(contactId, startOfDay());
+  const limit = getDailyLimit(contactId);
+  const sections = [
+    describeTotals("Today", today),
+    describeTotals("This week", contactTotals(contactId, startOfWeek())),
+    describeTotals("This month", contactTotals(contactId, startOfMonth())),
+  ];
+  if (limit !== null) {
+    sections.push(`Daily limit: ${formatUsd(today.costUsd)} of ${formatUsd(limit)}`);
+  }
+
+  await sendWhatsAppMessage(contactId, `📊 *Usage*\n──────────\n${sections.join("\n\n")}`);
+  return true;
+}
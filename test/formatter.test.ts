@@ -0,0 +1,96 @@
+import { describe, expect, it } from "vitest";
+import { MessageBuffer, splitMessage, toWhatsApp } from "../src/formatter.js";
+
+describe("toWhatsApp", () => {
+  it("converts headings", () => {
+    expect(toWhatsApp("# Title\n## Section\n### Sub\ntext")).toMatchSnapshot();
+  });
+
+  it("converts emphasis", () => {
+    expect(
+      toWhatsApp("**bold** and __bold__, *italic* and _italic_, ~~gone~~, `code`")
+    ).toMatchSnapshot();
+  });
+
+  it("converts links", () => {
+    expect(
+      toWhatsApp("See [the docs](https://example.com/docs) or https://example.com")
+    ).toMatchSnapshot();
+  });
+
+  it("keeps narrow tables as monospace", () => {
+    expect(toWhatsApp("| File | Lines |\n| --- | --- |\n| a.ts | 12 |\n| b.ts | 3 |")).toMatchSnapshot();
+  });
+
+  it("turns wide tables into bullets", () => {
+    expect(
+      toWhatsApp(
+        "| File | Change | Reason |\n| --- | --- | --- |\n| src/handler.ts | Moved formatting out | The handler was too long to follow |\n| src/formatter.ts | New converter | WhatsApp has no markdown |"
+      )
+    ).toMatchSnapshot();
+  });
+
+  it("converts nested lists and task lists", () => {
+    expect(
+      toWhatsApp("- one\n  - nested\n    - deeper\n- two\n\n- [x] done\n- [ ] todo\n\n1. first\n2. second")
+    ).toMatchSnapshot();
+  });
+
+  it("leaves code blocks alone and closes unclosed fences", () => {
+    expect(toWhatsApp("Run:\n```bash\necho **not bold**\n# not a heading\n")).toMatchSnapshot();
+  });
+});
+
+describe("splitMessage", () => {
+  it("returns short messages as they are", () => {
+    expect(splitMessage("hello")).toEqual(["hello"]);
+  });
+
+  it("numbers the parts and breaks between paragraphs", () => {
+    const paragraph = "word ".repeat(30).trim();
+    const parts = splitMessage([paragraph, paragraph, paragraph, paragraph].join("\n\n"), 400);
+    expect(parts.length).toBeGreaterThan(1);
+    parts.forEach((part, index) => {
+      expect(part.endsWith(`(${index + 1}/${parts.length})`)).toBe(true);
+      expect(part.length).toBeLessThanOrEqual(400);
+    });
+    expect(parts).toMatchSnapshot();
+  });
+
+  it("closes a fence cut mid-block and re-opens it in the next part", () => {
+    const code = Array.from({ length: 30 }, (_, i) => `const line${i} = ${i};`).join("\n");
+    const parts = splitMessage(`Here is the file:\n\n\`\`\`\n${code}\n\`\`\`\nDone.`, 300);
+    expect(parts.length).toBeGreaterThan(1);
+    for (const part of parts) {
+      // Every part has balanced fences
+      expect((part.match(/```/g) || []).length % 2).toBe(0);
+      expect(part.length).toBeLessThanOrEqual(300);
+    }
+    expect(parts).toMatchSnapshot();
+  });
+
+  it("hard-cuts text with no break points", () => {
+    const parts = splitMessage("x".repeat(1000), 300);
+    expect(parts.every((part) => part.length <= 300)).toBe(true);
+    expect(parts.map((part) => part.replace(/\n\(\d+\/\d+\)$/, "")).join("")).toBe("x".repeat(1000));
+  });
+});
+
+describe("MessageBuffer", () => {
+  it("doesn't split a long reply inside a code block", async () => {
+    const chunks: string[] = [];
+    const buffer = new MessageBuffer(async (chunk) => {
+      chunks.push(chunk);
+    });
+    const prose = "word ".repeat(760).trim();
+    const code = Array.from({ length: 40 }, (_, i) => `const line${i} = ${i};`).join("\n");
+    buffer.append(`${prose}\n\n\`\`\`\n${code}\n\`\`\`\n\nDone.`);
+    await buffer.flush();
+
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect((chunk.match(/```/g) || []).length % 2).toBe(0);
+    }
+    expect(chunks.some((chunk) => chunk.includes("const line0") && chunk.includes("const line39"))).toBe(true);
+  });
+});
@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+
+// The provider is created once per module, so each test loads a fresh copy
+async function loadTranscription() {
+  vi.resetModules();
+  return import("../src/transcription.js");
+}
+
+describe("getTranscriptionProvider", () => {
+  beforeEach(() => {
+    vi.stubEnv("TRANSCRIPTION_API_KEY", "");
+    vi.stubEnv("TRANSCRIPTION_BASE_URL", "");
+    vi.stubEnv("TRANSCRIPTION_MODEL", "");
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+  });
+
+  it("is disabled without a provider", async () => {
+    vi.stubEnv("TRANSCRIPTION_PROVIDER", "");
+    const { getTranscriptionProvider } = await loadTranscription();
+    expect(getTranscriptionProvider()).toBeNull();
+  });
+
+  it("returns the static stand-in's fixed transcript", async () => {
+    vi.stubEnv("TRANSCRIPTION_PROVIDER", "static");
+    vi.stubEnv("TRANSCRIPTION_STATIC_TEXT", "fix the login bug");
+    const { getTranscriptionProvider } = await loadTranscription();
+    const provider = getTranscriptionProvider()!;
+    expect(provider.name).toBe("static");
+    expect(await provider.transcribe(new ArrayBuffer(8), "audio/ogg")).toBe("fix the login bug");
+  });
+
+  it("uses the OpenAI defaults when the base URL and model are empty", async () => {
+    vi.stubEnv("TRANSCRIPTION_PROVIDER", "openai");
+    vi.stubEnv("TRANSCRIPTION_API_KEY", "sk-test");
+    const fetch = vi.fn(async (_url: string, _init: RequestInit) => Response.json({ text: " hello " }));
+    vi.stubGlobal("fetch", fetch);
+
+    const { getTranscriptionProvider } = await loadTranscription();
+    const transcript = await getTranscriptionProvider()!.transcribe(new ArrayBuffer(8), "audio/ogg; codecs=opus");
+
+    expect(transcript).toBe("hello");
+    const [url, init] = fetch.mock.calls[0];
+    expect(url).toBe("https://api.openai.com/v1/audio/transcriptions");
+    const form = init.body as FormData;
+    expect(form.get("model")).toBe("whisper-1");
+    expect((form.get("file") as File).name).toBe("voice.ogg");
+  });
+
+  it("throws on a missing API key", async () => {
+    vi.stubEnv("TRANSCRIPTION_PROVIDER", "openai");
+    vi.stubEnv("OPENAI_API_KEY", "");
+    const { getTranscriptionProvider } = await loadTranscription();
+    expect(() => getTranscriptionProvider()).toThrow(/API_KEY is required/);
+  });
+});
+
+describe("setTranscriptionProvider", () => {
+  it("swaps in a stand-in provider", async () => {
+    const { StaticTranscriptionProvider, getTranscriptionProvider, setTranscriptionProvider } =
+      await loadTranscription();
+    setTranscriptionProvider(new StaticTranscriptionProvider("from a test"));
+    expect(await getTranscriptionProvider()!.transcribe(new ArrayBuffer(0), "audio/ogg")).toBe("from a test");
+  });
+});